@@ -4,10 +4,895 @@ import { parse as parseArgs } from "https://deno.land/std@0.224.0/flags/mod.ts";
 
 const PACKAGE_NAME = "com.example.app";
 
+// Bump whenever metrics_N.json / summary_report.json change in a way older
+// readers can't handle (new optional fields don't count).
+const METRICS_SCHEMA_VERSION = 1;
+
+// Process exit codes, so CI can tell a broken run from a slow one.
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1; // bad arguments, no device, or no iteration succeeded
+const EXIT_BUDGET_VIOLATION = 2;
+
+const LIFECYCLE_EVENTS = [
+  "activityCreate",
+  "activityStart",
+  "activityResume",
+  "activityDrawn",
+] as const;
+
+type LifecycleEvent = (typeof LIFECYCLE_EVENTS)[number];
+
+const LIFECYCLE_LABELS: Record<LifecycleEvent, string> = {
+  activityCreate: "Activity Create",
+  activityStart: "Activity Start",
+  activityResume: "Activity Resume",
+  activityDrawn: "Activity Fully Drawn",
+};
+
+const LIFECYCLE_SUMMARY_KEYS: Record<LifecycleEvent, string> = {
+  activityCreate: "activity_create",
+  activityStart: "activity_start",
+  activityResume: "activity_resume",
+  activityDrawn: "activity_drawn",
+};
+
+// cold: process force-stopped (and data optionally cleared) before launch
+// warm: process force-stopped, app data kept
+// hot: process kept alive in the background and brought back to the front
+type RunMode = "cold" | "warm" | "hot";
+
+const RUN_MODES: RunMode[] = ["cold", "warm", "hot"];
+
+// Android reports a launch as COLD whenever it had to start the process,
+// which a warm run does too: it only differs from cold by keeping app data,
+// which LaunchState cannot show. Warm runs are therefore not checked.
+const EXPECTED_LAUNCH_STATES: Record<RunMode, string | undefined> = {
+  cold: "COLD",
+  warm: undefined,
+  hot: "HOT",
+};
+
+// Which start->end occurrence(s) of a paired marker feed its duration:
+// "all" aggregates every occurrence, "nth" uses the 1-based `nth` one.
+type PairedAggregation = "first" | "last" | "all" | "nth";
+
+const PAIRED_AGGREGATIONS: PairedAggregation[] = [
+  "first",
+  "last",
+  "all",
+  "nth",
+];
+
 interface PairedMarker {
   start: string;
   end: string;
   name: string;
+  aggregation?: PairedAggregation;
+  nth?: number;
+}
+
+interface DeviceInfo {
+  serial?: string;
+  model?: string;
+  androidVersion?: string;
+  refreshPeriodMs?: number;
+  stabilization?: DeviceStabilization;
+}
+
+const ANIMATION_SCALE_SETTINGS = [
+  "window_animation_scale",
+  "transition_animation_scale",
+  "animator_duration_scale",
+];
+
+// 1-minute load average divided by the number of CPUs.
+const DEFAULT_MAX_CPU_LOAD_PER_CORE = 0.5;
+const CPU_IDLE_TIMEOUT_MS = 60000;
+const CPU_IDLE_POLL_INTERVAL_MS = 2000;
+
+// A CPU's cpufreq policy as it was before pinning.
+interface CpuFrequencySetting {
+  cpu: number;
+  governor: string;
+  minFreqKHz: number;
+  maxFreqKHz: number;
+}
+
+// What stabilizeDevice changed, with the values to put back afterwards.
+interface DeviceStabilization {
+  animationsDisabled: boolean;
+  stayAwake: boolean;
+  maxCpuLoadPerCore: number;
+  // Switched to the performance governor with the minimum frequency raised
+  // to maxFreqKHz. Empty without root or cpufreq.
+  pinnedCpus: CpuFrequencySetting[];
+  restored?: boolean;
+  original: {
+    animationScales: Record<string, string>;
+    stayOnWhilePluggedIn?: string;
+    // Settings that were changed although reading their value failed, so
+    // they cannot be put back.
+    unrecorded: string[];
+  };
+}
+
+// "unterminated" slices were still open when the trace ended.
+type OccurrenceStatus = "complete" | "unterminated";
+
+interface MarkerOccurrence {
+  timestamp: number;
+  timeFromStart?: number;
+  duration?: number;
+  status?: OccurrenceStatus;
+}
+
+interface MarkerResult {
+  name: string;
+  status: "found" | "not_found";
+  occurrences: MarkerOccurrence[];
+}
+
+interface PairedOccurrence {
+  start: number;
+  end: number;
+  timeFromStart?: number;
+  duration: number;
+}
+
+interface PairedMarkerResult {
+  name: string;
+  start: MarkerResult;
+  end: MarkerResult;
+  aggregation?: PairedAggregation;
+  occurrences?: PairedOccurrence[];
+  unmatchedStarts?: number;
+  unmatchedEnds?: number;
+  occurrenceStats?: { count: number; p50: number; p90: number; max: number };
+  // The duration selected by `aggregation` (the median for "all").
+  duration?: number;
+}
+
+interface TraceEvent {
+  task: string;
+  pid?: number;
+  tid: number;
+  cpu: number;
+  flags: string;
+  timestamp: number;
+  type: string;
+  payload: string;
+}
+
+// Decoded tracing_mark_write payloads (atrace / Trace.beginSection & co).
+type TraceMark =
+  | { kind: "B"; pid: number; name: string }
+  | { kind: "E"; pid: number }
+  | { kind: "C"; pid: number; name: string; value: number }
+  | { kind: "S" | "F"; pid: number; name: string; cookie: number };
+
+interface TraceMarkEvent extends TraceEvent {
+  mark: TraceMark;
+}
+
+interface MarkerSpan {
+  start: number;
+  end?: number;
+  status: OccurrenceStatus;
+}
+
+// A B|pid|name ... E|pid pair rebuilt from the per-thread slice stack, or an
+// S|pid|name|cookie ... F|pid|name|cookie async pair (which has a cookie and
+// may end on a different thread than it started on).
+interface TraceSlice {
+  name: string;
+  pid: number;
+  tid: number;
+  depth: number;
+  start: number;
+  end?: number;
+  cookie?: number;
+}
+
+interface CounterTrack {
+  name: string;
+  pid: number;
+  samples: Array<{ timestamp: number; value: number }>;
+}
+
+type ThreadState = "running" | "runnable" | "sleeping" | "uninterruptible";
+
+const THREAD_STATE_LABELS: Record<ThreadState, string> = {
+  running: "Running",
+  runnable: "Runnable",
+  sleeping: "Sleeping",
+  uninterruptible: "Uninterruptible (I/O)",
+};
+
+// App threads whose scheduling is broken down. Hermes GC covers every
+// thread named hades* or hermes*.
+type KeyThread =
+  | "main"
+  | "mqt_js"
+  | "mqt_native_modules"
+  | "RenderThread"
+  | "hermes_gc";
+
+const KEY_THREAD_LABELS: Record<KeyThread, string> = {
+  main: "Main thread",
+  mqt_js: "JS thread (mqt_js)",
+  mqt_native_modules: "Native modules thread (mqt_native_modules)",
+  RenderThread: "RenderThread",
+  hermes_gc: "Hermes GC",
+};
+
+interface ThreadStateChange {
+  timestamp: number;
+  state: ThreadState;
+}
+
+interface ThreadStateBreakdown {
+  thread: KeyThread;
+  tids: number[];
+  // Milliseconds per state. Time before a thread's first sched event is
+  // unknown and left out, so the states can add up to less than the window.
+  ms: Record<ThreadState, number>;
+}
+
+interface ThreadStateWindow {
+  // "startup" or a paired marker name.
+  name: string;
+  // Summed over every window of the paired marker that feeds its duration.
+  durationMs: number;
+  threads: ThreadStateBreakdown[];
+}
+
+// Startup or a paired marker, as the spans (absolute trace seconds) that
+// per-window analyses look at.
+interface AnalysisWindow {
+  name: string;
+  spans: Array<[number, number]>;
+}
+
+type LongTaskThread = "main" | "mqt_js";
+
+const LONG_TASK_THREAD_LABELS: Record<LongTaskThread, string> = {
+  main: "UI thread",
+  mqt_js: "JS thread (mqt_js)",
+};
+
+// A UI frame is 16 ms at 60 Hz; 50 ms is the usual long task threshold for
+// JavaScript.
+const DEFAULT_LONG_TASK_THRESHOLDS_MS: Record<LongTaskThread, number> = {
+  main: 16,
+  mqt_js: 50,
+};
+
+const LONG_TASKS_REPORTED = 10;
+
+// A top-level slice over the thread's threshold, or a stretch where the
+// thread never slept (from sched data) that no long slice explains.
+interface LongTask {
+  thread: LongTaskThread;
+  tid: number;
+  source: "slice" | "busy_period";
+  // The slice, or for a busy period the top-level slice overlapping it most.
+  name?: string;
+  timestamp: number;
+  timeFromStart?: number;
+  durationMs: number;
+  // Empty without sched data.
+  states: Partial<Record<ThreadState, number>>;
+  // Analysis windows the task overlaps.
+  windows: string[];
+}
+
+interface LongTaskAnalysis {
+  thresholdsMs: Record<LongTaskThread, number>;
+  tasks: LongTask[];
+  windows: Array<{
+    name: string;
+    threads: Array<{ thread: LongTaskThread; count: number; totalMs: number }>;
+  }>;
+}
+
+type StartupPhaseKey =
+  | "process_start"
+  | "bind_application"
+  | "application_create"
+  | "activity_start"
+  | "inflate"
+  | "activity_resume"
+  | "rn_create_react_context"
+  | "rn_native_module_init"
+  | "rn_bundle_load"
+  | "rn_run_js_bundle"
+  | "first_frame"
+  | "fully_drawn";
+
+const STARTUP_PHASE_LABELS: Record<StartupPhaseKey, string> = {
+  process_start: "Process start",
+  bind_application: "bindApplication",
+  application_create: "Application.onCreate",
+  activity_start: "activityStart",
+  inflate: "Inflate",
+  activity_resume: "activityResume",
+  rn_create_react_context: "CREATE_REACT_CONTEXT",
+  rn_native_module_init: "Native module init",
+  rn_bundle_load: "JS bundle load",
+  rn_run_js_bundle: "RUN_JS_BUNDLE",
+  first_frame: "First frame",
+  fully_drawn: "Until fully drawn",
+};
+
+// Phases found by slice name in the app process. Most take the first
+// matching slice after t=0; "merge" phases span every matching slice until
+// the end of startup, since inflation and native module setup are split into
+// many small sections. Phases whose slices are missing are left out, so the
+// React Native ones only show up for apps that trace ReactMarker events.
+const STARTUP_PHASE_SLICES: Array<{
+  key: Exclude<StartupPhaseKey, "process_start" | "fully_drawn">;
+  pattern: RegExp;
+  mainThread?: boolean;
+  merge?: boolean;
+}> = [
+  { key: "bind_application", pattern: /^bindApplication$/, mainThread: true },
+  { key: "application_create", pattern: /Application[.#]onCreate/ },
+  { key: "activity_start", pattern: /^activityStart$/, mainThread: true },
+  { key: "inflate", pattern: /^inflate$/, mainThread: true, merge: true },
+  { key: "activity_resume", pattern: /^activityResume$/, mainThread: true },
+  {
+    key: "rn_create_react_context",
+    pattern: /CREATE_REACT_CONTEXT|createReactContext/,
+  },
+  {
+    key: "rn_native_module_init",
+    pattern: /NATIVE_MODULE_(?:SETUP|INITIALIZE)|CREATE_MODULE/,
+    merge: true,
+  },
+  {
+    key: "rn_bundle_load",
+    pattern:
+      /JS_BUNDLE_LOAD|loadApplicationScript|loadScriptFrom(?:Assets|File)/,
+  },
+  { key: "rn_run_js_bundle", pattern: /RUN_JS_BUNDLE|runJSBundle/ },
+  { key: "first_frame", pattern: /^Choreographer#doFrame/, mainThread: true },
+];
+
+interface StartupPhase {
+  key: StartupPhaseKey;
+  // Seconds from t=0.
+  start: number;
+  duration: number;
+  // Of the whole waterfall, t=0 to the end of the last phase. Nested phases
+  // (Application.onCreate inside bindApplication) overlap, so shares can add
+  // up to more than 100%.
+  sharePercent: number;
+}
+
+interface StartupWaterfall {
+  totalSeconds: number;
+  phases: StartupPhase[];
+}
+
+interface TraceModel {
+  eventCount: number;
+  firstTimestamp?: number;
+  lastTimestamp?: number;
+  firstAppMentionTimestamp?: number;
+  appPids: Set<number>;
+  marks: TraceMarkEvent[];
+  slices: TraceSlice[];
+  asyncSlices: TraceSlice[];
+  counters: CounterTrack[];
+  unmatchedEnds: TraceMarkEvent[];
+  threadNames: Map<number, string>;
+  // tid -> pid, from lines that carry the TGID column.
+  threadPids: Map<number, number>;
+  // Scheduler state changes of key threads (of any process, filter with
+  // threadPids), from sched_switch and sched_wakeup/sched_waking.
+  keyThreads: Map<number, KeyThread>;
+  threadStates: Map<number, ThreadStateChange[]>;
+}
+
+// One event of the Chrome Trace Event Format, as read by chrome://tracing and
+// the Perfetto UI. Timestamps and durations are in microseconds.
+interface ChromeTraceEvent {
+  name: string;
+  ph: "B" | "E" | "X" | "b" | "e" | "C" | "i" | "M";
+  pid: number;
+  tid: number;
+  ts?: number;
+  dur?: number;
+  cat?: string;
+  // Async events are matched by category, name and id, scoped to the process.
+  id2?: { local: string };
+  // Instant event scope: "g" spans every track, "t" stays on the thread.
+  s?: "g" | "p" | "t";
+  args?: Record<string, unknown>;
+}
+
+interface CounterTrackResult {
+  name: string;
+  pid: number;
+  samples: Array<{ timestamp: number; timeFromStart?: number; value: number }>;
+  min: number;
+  max: number;
+  last: number;
+}
+
+// Parsed from `dumpsys gfxinfo <package> framestats`. The counters come from
+// the summary header and cover every frame since the last reset; the frame
+// time percentiles come from the per-frame PROFILEDATA rows, which only hold
+// the most recent frames (120 on most Android versions).
+interface FrameStats {
+  totalFrames: number;
+  jankyFrames: number;
+  jankyPercent: number;
+  missedVsync: number;
+  slowUiThread: number;
+  slowBitmapUploads: number;
+  slowIssueDrawCommands?: number;
+  profiledFrames: number;
+  /** Absent when gfxinfo reported no PROFILEDATA rows to measure. */
+  frameTimeMs?: {
+    avg: number;
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+  };
+}
+
+type JankCause = "ui_thread" | "render_thread" | "gpu_wait";
+
+const JANK_CAUSE_LABELS: Record<JankCause, string> = {
+  ui_thread: "UI thread",
+  render_thread: "RenderThread",
+  gpu_wait: "GPU wait",
+};
+
+// One frame rebuilt from the app's Choreographer#doFrame slice on the main
+// thread and the DrawFrame slice RenderThread produced for it.
+interface TraceFrame {
+  timestamp: number;
+  timeFromStart?: number;
+  durationMs: number;
+  uiThreadMs: number;
+  traversalMs: number;
+  renderThreadMs: number;
+  gpuWaitMs: number;
+  cause?: JankCause;
+  pairedMarkers: string[];
+}
+
+interface TraceJankAnalysis {
+  refreshPeriodMs: number;
+  totalFrames: number;
+  jankyFrames: number;
+  jankyPercent: number;
+  causes: Record<JankCause, number>;
+  pairedMarkers: Array<{ name: string; frames: number; jankyFrames: number }>;
+  worstFrames: TraceFrame[];
+}
+
+// Sizes in KB from the App Summary of `dumpsys meminfo <package>` (PSS,
+// except the RSS total).
+interface MemorySnapshot {
+  totalPssKb: number;
+  totalRssKb?: number;
+  javaHeapKb?: number;
+  nativeHeapKb?: number;
+  graphicsKb?: number;
+  codeKb?: number;
+  stackKb?: number;
+  // Counts from the Objects section, keyed by MEMORY_OBJECT_COUNTS labels.
+  objects: Record<string, number>;
+}
+
+const MEMORY_METRICS: Array<
+  [Exclude<keyof MemorySnapshot, "objects">, string, string]
+> = [
+  ["totalPssKb", "total_pss", "Total PSS"],
+  ["totalRssKb", "total_rss", "Total RSS"],
+  ["javaHeapKb", "java_heap", "Java Heap"],
+  ["nativeHeapKb", "native_heap", "Native Heap"],
+  ["graphicsKb", "graphics", "Graphics"],
+  ["codeKb", "code", "Code"],
+  ["stackKb", "stack", "Stack"],
+];
+
+const MEMORY_OBJECT_COUNTS = [
+  "Views",
+  "ViewRootImpl",
+  "AppContexts",
+  "Activities",
+  "WebViews",
+  "Local Binders",
+  "Proxy Binders",
+  "Death Recipients",
+];
+
+// What `am start-activity -W` reports for the launch. These are the numbers
+// Android vitals are based on; times are in milliseconds.
+interface LaunchMetrics {
+  status?: string;
+  launchState?: string;
+  activity?: string;
+  totalTimeMs?: number;
+  waitTimeMs?: number;
+  thisTimeMs?: number;
+  // The launch state Android reported differs from the requested run mode.
+  launchStateMismatch?: boolean;
+}
+
+// What was actually done to the device before launching the app.
+interface StartPreparation {
+  forceStopped: boolean;
+  dataCleared: boolean;
+  cachesDropped: boolean;
+  sentToBackground: boolean;
+  cpuIdle?: CpuIdleWait;
+}
+
+interface CpuIdleWait {
+  loadPerCore?: number;
+  // False when the load stayed above the threshold until the timeout.
+  settled: boolean;
+  waitedMs: number;
+}
+
+// One scripted interaction run after launch. Coordinates are in device
+// pixels, durations in milliseconds.
+type ScenarioStep =
+  | { action: "tap"; x: number; y: number }
+  | {
+      action: "swipe";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      durationMs?: number;
+    }
+  | { action: "text"; text: string }
+  | { action: "keyevent"; key: string | number }
+  | { action: "deeplink"; url: string }
+  | { action: "wait"; ms: number }
+  | { action: "waitForMarker"; marker: string; timeoutMs?: number }
+  | { action: "screenshot"; name?: string };
+
+const SCENARIO_ACTIONS: ScenarioStep["action"][] = [
+  "tap",
+  "swipe",
+  "text",
+  "keyevent",
+  "deeplink",
+  "wait",
+  "waitForMarker",
+  "screenshot",
+];
+
+const DEFAULT_MARKER_WAIT_TIMEOUT_MS = 30000;
+const MARKER_POLL_INTERVAL_MS = 500;
+// Each poll dumps the whole trace buffer on the device, so don't do it more
+// often than needed while the app is still starting up.
+const TRACE_COMPLETION_POLL_INTERVAL_MS = 1000;
+// Keep recording briefly after the last done marker so the frames and
+// slices that close the measured work end up in the trace.
+const EARLY_STOP_SETTLE_MS = 1000;
+
+interface Scenario {
+  name: string;
+  // Markers the scenario is meant to trigger; checked against each trace.
+  expectedMarkers: string[];
+  steps: ScenarioStep[];
+}
+
+type ScenarioStepStatus = "ok" | "failed" | "timeout" | "skipped";
+
+interface ScenarioStepResult {
+  action: ScenarioStep["action"];
+  description: string;
+  status: ScenarioStepStatus;
+  elapsedMs?: number;
+}
+
+interface TraceStopResult {
+  reason: "done_markers" | "timeout" | "duration";
+  recordedMs: number;
+  // Done markers not seen before the timeout.
+  missingMarkers?: string[];
+}
+
+interface ScenarioResult {
+  name: string;
+  steps: ScenarioStepResult[];
+  expectedMarkers: Array<{ marker: string; found: boolean }>;
+  // False when a step failed or an expected marker is missing.
+  passed: boolean;
+}
+
+// Data gathered from the device during an iteration, next to the trace.
+interface IterationDeviceData {
+  startPreparation?: StartPreparation;
+  launch?: LaunchMetrics;
+  frameStats?: FrameStats;
+  memory?: MemorySnapshot;
+  pairedMarkerMemory?: Record<string, MemorySnapshot>;
+  scenarioSteps?: ScenarioStepResult[];
+  traceStop?: TraceStopResult;
+}
+
+interface SliceBalance {
+  scope: "app" | "trace";
+  unterminatedSlices: number;
+  unmatchedEnds: number;
+}
+
+interface IterationMetrics {
+  schemaVersion: number;
+  iteration: number;
+  // Warm-up iterations are stored as metrics_warmup_N.json and never
+  // aggregated.
+  warmup?: boolean;
+  date: string;
+  appPackage: string;
+  appActivity: string;
+  mode: RunMode;
+  startPreparation?: StartPreparation;
+  device: DeviceInfo;
+  tracePath: string;
+  appStartTimestamp?: number;
+  lifecycle: Record<LifecycleEvent, MarkerResult>;
+  launch?: LaunchMetrics;
+  customMarkers: MarkerResult[];
+  pairedMarkers: PairedMarkerResult[];
+  counters?: CounterTrackResult[];
+  frameStats?: FrameStats;
+  // Taken when the trace stops.
+  memory?: MemorySnapshot;
+  // Taken right after each paired marker's end marker appeared, keyed by
+  // paired marker name. Only with --memory-at-markers.
+  pairedMarkerMemory?: Record<string, MemorySnapshot>;
+  traceJank?: TraceJankAnalysis;
+  // Startup window first, then one per paired marker. Needs the sched
+  // category.
+  threadStates?: ThreadStateWindow[];
+  longTasks?: LongTaskAnalysis;
+  startupPhases?: StartupWaterfall;
+  // trace_iteration_N.json, with --chrome-trace.
+  chromeTracePath?: string;
+  sliceBalance?: SliceBalance;
+  scenario?: ScenarioResult;
+  traceStop?: TraceStopResult;
+}
+
+type MetricUnit = "seconds" | "ms" | "percent" | "kb" | "value";
+
+interface MetricSample {
+  iteration: number;
+  value: number;
+}
+
+interface MetricSeries {
+  unit: MetricUnit;
+  samples: MetricSample[];
+  // Samples dropped by outlier rejection; not part of samples or stats.
+  rejected?: MetricSample[];
+}
+
+interface MetricStats {
+  count: number;
+  min: number;
+  max: number;
+  avg: number;
+  median: number;
+  stdDev: number; // sample standard deviation
+  cv?: number; // stdDev / avg, undefined when avg is 0
+  p25: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  iqr: number;
+}
+
+type SummaryMetric = MetricSeries & { stats: MetricStats };
+
+type OutlierMethod = "none" | "iqr" | "mad";
+
+const OUTLIER_METHODS: OutlierMethod[] = ["none", "iqr", "mad"];
+
+// Below this many samples quartiles and MAD are too unstable to call
+// anything an outlier.
+const MIN_SAMPLES_FOR_OUTLIER_REJECTION = 4;
+const IQR_FENCE_FACTOR = 1.5;
+// Iglewicz-Hoaglin modified z-score cutoff.
+const MAD_Z_SCORE_THRESHOLD = 3.5;
+
+// Timing metrics noisier than this get a warning in the summary.
+const HIGH_CV_THRESHOLD = 0.1;
+
+type BudgetStatistic =
+  | "min"
+  | "max"
+  | "avg"
+  | "median"
+  | "p50"
+  | "p90"
+  | "p95"
+  | "p99";
+
+const BUDGET_STATISTICS: BudgetStatistic[] = [
+  "min",
+  "max",
+  "avg",
+  "median",
+  "p50",
+  "p90",
+  "p95",
+  "p99",
+];
+
+// A limit on one aggregated metric, e.g. "newsfeed_load p90 < 800ms".
+// Limits are numbers in the metric's own unit, or strings with a unit
+// suffix ("1.2s", "800ms", "5%").
+interface PerformanceBudget {
+  metric: string;
+  statistic?: BudgetStatistic; // defaults to median
+  max?: number | string;
+  min?: number | string;
+}
+
+type BudgetStatus = "pass" | "fail" | "no_data" | "invalid";
+
+interface BudgetResult {
+  metric: string;
+  // Summary metric key the budget was checked against, once resolved.
+  resolvedMetric?: string;
+  statistic: BudgetStatistic;
+  unit?: MetricUnit;
+  max?: number;
+  min?: number;
+  value?: number;
+  status: BudgetStatus;
+  message?: string;
+}
+
+interface SummaryReport {
+  schemaVersion: number;
+  date: string;
+  appPackage: string;
+  appActivity: string;
+  iterations: number;
+  successfulIterations: number[];
+  launchStateMismatches: number[];
+  scenario?: string;
+  // Iterations where a scenario step failed or an expected marker was missing.
+  scenarioFailures?: number[];
+  // Iterations where a scenario step did not complete.
+  scenarioStepFailures?: number[];
+  // Each expected scenario marker, with the iterations it was missing from.
+  scenarioMissingMarkers?: Record<string, number[]>;
+  mode: RunMode;
+  device: DeviceInfo;
+  customMarkers: string[];
+  pairedMarkers: PairedMarker[];
+  counterTracks: string[];
+  outlierMethod: OutlierMethod;
+  warmupIterations?: number;
+  adaptive?: AdaptiveResult;
+  longTaskThresholdsMs?: Record<LongTaskThread, number>;
+  // The long tasks seen in the most iterations, by thread and name.
+  topLongTasks?: Array<{
+    thread: LongTaskThread;
+    name?: string;
+    iterations: number[];
+    medianMs: number;
+  }>;
+  metrics: Record<string, SummaryMetric>;
+  budgets?: BudgetResult[];
+}
+
+type ComparisonVerdict =
+  | "improved"
+  | "regressed"
+  | "changed"
+  | "inconclusive"
+  | "insufficient_data";
+
+interface MetricComparison {
+  name: string;
+  unit: MetricUnit;
+  // false for metrics where neither direction is better (frame and
+  // occurrence counts, counter values): significant changes are "changed".
+  lowerIsBetter?: boolean;
+  baseline: MetricStats;
+  candidate: MetricStats;
+  delta: number; // candidate median - baseline median
+  percentChange?: number;
+  confidenceInterval?: { level: number; low: number; high: number };
+  mannWhitney?: { u: number; pValue: number; method: "exact" | "normal" };
+  verdict: ComparisonVerdict;
+}
+
+interface ComparisonReport {
+  schemaVersion: number;
+  date: string;
+  baselineDir: string;
+  candidateDir: string;
+  alpha: number;
+  bootstrapResamples: number;
+  // Differences in app, run mode or device that make the comparison suspect.
+  warnings: string[];
+  metrics: MetricComparison[];
+}
+
+// Keep iterating (from `iterations` up to `maxIterations`) until the
+// confidence interval of the median of `metric` is narrower than `targetWidth`.
+interface AdaptiveConfig {
+  metric: string;
+  // Absolute in the metric's unit ("20ms", "0.05s") or relative to the
+  // median ("5%").
+  targetWidth: string;
+  maxIterations: number;
+}
+
+interface AdaptiveResult {
+  metric: string;
+  resolvedMetric?: string;
+  targetWidth: string;
+  maxIterations: number;
+  converged: boolean;
+  confidenceInterval?: { level: number; low: number; high: number };
+}
+
+interface DeviceRun {
+  serial: string;
+  outputDir: string;
+  exitCode: number;
+  // Set when the run threw instead of returning an exit code.
+  error?: string;
+  device?: DeviceInfo;
+  successfulIterations?: number[];
+}
+
+interface DeviceMetricSummary {
+  count: number;
+  median: number;
+  p90: number;
+  cv?: number;
+}
+
+// Side-by-side results of an --all-devices run.
+interface DeviceComparisonReport {
+  schemaVersion: number;
+  date: string;
+  appPackage: string;
+  devices: DeviceRun[];
+  // metric name -> device serial -> stats
+  metrics: Record<
+    string,
+    { unit: MetricUnit; devices: Record<string, DeviceMetricSummary> }
+  >;
+}
+
+type ReportFormat = "markdown" | "csv" | "junit";
+
+// Extra renderings of the summary for CI systems, written next to
+// summary_report.txt when selected with --report-format.
+interface ReportExporter {
+  fileName: string;
+  // The comparison is only there when --baseline was given and loaded.
+  render: (summary: SummaryReport, comparison?: ComparisonReport) => string;
+}
+
+interface MarkersConfig {
+  customMarkers: string[];
+  pairedMarkers: PairedMarker[];
+  // Counter tracks (C|pid|name|value) to report. Empty means every counter
+  // emitted by the app process.
+  counters: string[];
+  budgets: PerformanceBudget[];
 }
 
 interface Config {
@@ -19,17 +904,53 @@ interface Config {
   deviceTracePath: string;
   customMarkers: string[];
   pairedMarkers: PairedMarker[];
+  counters: string[];
+  budgets: PerformanceBudget[];
+  outlierMethod: OutlierMethod;
+  warmupIterations: number;
+  adaptive?: AdaptiveConfig;
+  scenario?: Scenario;
+  // Stop the trace once all of these markers began and all of doneSliceEnds
+  // ended; traceDuration becomes the timeout. Both empty means always record
+  // for the full traceDuration.
+  doneMarkers: string[];
+  // Slices of same-name paired markers, whose begin says nothing about
+  // whether the duration is complete yet.
+  doneSliceEnds: string[];
+  // adb serial of the device to measure; unset means adb's default device.
+  serial?: string;
   traceCategories: string;
   markersConfigPath: string;
-  warmMode: boolean;
+  startMode: RunMode;
+  clearData: boolean;
+  dropCaches: boolean;
+  stabilize: boolean;
+  maxCpuLoadPerCore: number;
+  memoryAtMarkers: boolean;
+  longTaskThresholdsMs: Record<LongTaskThread, number>;
+  reportFormats: ReportFormat[];
+  // Also convert each trace to Chrome Trace Event JSON.
+  chromeTrace: boolean;
+  // Summary directory of an earlier run; the Markdown report shows deltas
+  // against it.
+  baselineDir?: string;
+}
+
+interface CommandOptions {
+  stderr?: "piped" | "null";
+  // For polls where a non-zero exit is expected (grep finding nothing):
+  // neither the command nor its failure is logged.
+  quiet?: boolean;
 }
 
 async function runCommand(
   cmd: string,
   args: string[],
-  options: { stderr?: "piped" | "null" } = {}
+  options: CommandOptions = {}
 ): Promise<{ success: boolean; stdout: string; stderr: string }> {
-  console.log(`Running command: ${cmd} ${args.join(" ")}`);
+  if (!options.quiet) {
+    console.log(`Running command: ${cmd} ${args.join(" ")}`);
+  }
 
   try {
     const process = new Deno.Command(cmd, {
@@ -42,9 +963,11 @@ async function runCommand(
 
     const textDecoder = new TextDecoder();
     const stdoutText = textDecoder.decode(output.stdout);
-    const stderrText = textDecoder.decode(output.stderr);
+    // output.stderr throws when stderr was not piped.
+    const stderrText =
+      options.stderr === "null" ? "" : textDecoder.decode(output.stderr);
 
-    if (!output.success) {
+    if (!output.success && !options.quiet) {
       console.error(`Command failed with exit code ${output.code}`);
       if (stderrText) console.error(`Error: ${stderrText}`);
     }
@@ -68,1033 +991,5905 @@ async function runCommand(
   }
 }
 
-async function checkDeviceConnected(): Promise<boolean> {
-  const { success, stdout } = await runCommand("adb", ["devices"]);
-  if (!success) return false;
-
-  const lines = stdout.trim().split("\n");
-  return lines.length > 1 && lines[1].includes("device");
+// Runs adb against the configured device. Without a serial adb picks the only
+// connected device, and fails when there are several.
+async function runAdb(
+  config: Config,
+  args: string[],
+  options: CommandOptions = {}
+): Promise<{ success: boolean; stdout: string; stderr: string }> {
+  return await runCommand(
+    "adb",
+    config.serial ? ["-s", config.serial, ...args] : args,
+    options
+  );
 }
 
-async function clearAppData(appPackage: string): Promise<boolean> {
-  console.log("Clearing app data...");
-  const { success } = await runCommand("adb", [
-    "shell",
-    "pm",
-    "clear",
-    appPackage,
-  ]);
-  return success;
+// Serials of devices that are online, skipping offline and unauthorized ones.
+async function listConnectedDevices(): Promise<string[]> {
+  const { success, stdout } = await runCommand("adb", ["devices"]);
+  if (!success) return [];
+
+  return stdout
+    .trim()
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trim().split(/\s+/))
+    .filter(([serial, state]) => serial && state === "device")
+    .map(([serial]) => serial);
 }
 
-async function startTrace(config: Config): Promise<boolean> {
-  console.log("Starting trace capture...");
-
-  const { success, stderr } = await runCommand("adb", [
-    "shell",
-    `atrace --async_start -a ${config.appPackage} -b 16000 -c ${config.traceCategories}`,
-  ]);
+// Reports why no single device can be measured: none connected, the requested
+// serial missing, or several attached without a serial to pick one.
+async function checkDeviceConnected(config: Config): Promise<boolean> {
+  const devices = await listConnectedDevices();
 
-  if (!success) {
-    console.error(`Failed to start trace: ${stderr}`);
+  if (config.serial) {
+    if (devices.includes(config.serial)) return true;
+    console.error(`Device ${config.serial} is not connected`);
     return false;
   }
 
-  console.log("Trace capture started");
-  return true;
-}
-
-async function stopTrace(config: Config): Promise<boolean> {
-  console.log("Stopping trace capture...");
-
-  const { success, stderr } = await runCommand("adb", [
-    "shell",
-    `atrace --async_stop -o ${config.deviceTracePath}`,
-  ]);
-
-  if (!success) {
-    console.error(`Failed to stop trace: ${stderr}`);
+  if (devices.length > 1) {
+    console.error(
+      `${devices.length} devices connected (${devices.join(
+        ", "
+      )}). Pick one with --serial or measure all of them with --all-devices.`
+    );
     return false;
   }
 
-  console.log("Trace capture stopped");
+  if (devices.length === 0) {
+    console.error(
+      "No Android device connected. Please connect a device and try again."
+    );
+    return false;
+  }
   return true;
 }
 
-async function launchApp(config: Config): Promise<string> {
-  console.log("Launching app...");
-  const activityName =
-    config.appActivity || `${config.appPackage}.MainActivity`;
-  const { success, stdout, stderr } = await runCommand("adb", [
+async function forceStopApp(config: Config): Promise<boolean> {
+  console.log("Force-stopping app...");
+  const { success } = await runAdb(config, [
     "shell",
     "am",
-    "start-activity",
-    "-W",
-    `${config.appPackage}/${activityName}`,
+    "force-stop",
+    config.appPackage,
   ]);
-
-  if (!success) {
-    console.error(`Failed to launch app: ${stderr}`);
-    return "";
-  }
-
-  return stdout;
+  return success;
 }
 
-async function takeScreenshot(outputPath: string): Promise<boolean> {
-  console.log("Taking screenshot...");
-  const tempPath = "/sdcard/screen_temp.png";
-
-  const screencap = await runCommand("adb", [
+async function isAppRunning(config: Config): Promise<boolean> {
+  const { success, stdout } = await runAdb(config, [
     "shell",
-    "screencap",
-    "-p",
-    tempPath,
+    "pidof",
+    config.appPackage,
   ]);
-  if (!screencap.success) return false;
-
-  const pull = await runCommand("adb", ["pull", tempPath, outputPath]);
-  if (!pull.success) return false;
-
-  await runCommand("adb", ["shell", "rm", tempPath]);
-  return true;
+  return success && stdout.trim() !== "";
 }
 
-async function pullTraceFile(
+// Works on emulators and rooted devices (via `su`, or directly when adbd
+// runs as root) and fails harmlessly elsewhere.
+async function runAsRoot(
   config: Config,
-  localPath: string
-): Promise<boolean> {
-  console.log("Pulling trace file...");
-
-  const { success, stderr } = await runCommand("adb", [
-    "pull",
-    config.deviceTracePath,
-    localPath,
-  ]);
+  command: string
+): Promise<{ success: boolean; stdout: string; stderr: string }> {
+  const viaSu = await runAdb(
+    config,
+    ["shell", `su 0 sh -c ${shellQuote(command)}`],
+    { stderr: "null" }
+  );
+  if (viaSu.success) return viaSu;
 
-  if (!success) {
-    console.error(`Failed to pull trace file: ${stderr}`);
-    return false;
-  }
+  return await runAdb(config, ["shell", command], { stderr: "null" });
+}
 
-  console.log(`Successfully pulled trace file to ${localPath}`);
-  return true;
+async function dropPageCaches(config: Config): Promise<boolean> {
+  console.log("Dropping page caches...");
+  const { success } = await runAsRoot(
+    config,
+    "sync; echo 3 > /proc/sys/vm/drop_caches"
+  );
+  return success;
 }
 
-async function getDeviceInfo(): Promise<Record<string, string>> {
-  console.log("Getting device information...");
-  const info: Record<string, string> = {};
+async function sendAppToBackground(config: Config): Promise<boolean> {
+  console.log("Sending app to background...");
+  const { success } = await runAdb(config, [
+    "shell",
+    "input",
+    "keyevent",
+    "KEYCODE_HOME",
+  ]);
+  return success;
+}
 
-  const modelResult = await runCommand("adb", [
+async function wakeAndUnlock(config: Config): Promise<boolean> {
+  const wake = await runAdb(config, [
     "shell",
-    "getprop",
-    "ro.product.model",
+    "input",
+    "keyevent",
+    "KEYCODE_WAKEUP",
   ]);
-  if (modelResult.success) {
-    info.model = modelResult.stdout.trim();
-  }
+  // Only dismisses keyguards without a PIN or pattern.
+  const unlock = await runAdb(config, ["shell", "wm", "dismiss-keyguard"]);
+  return wake.success && unlock.success;
+}
 
-  const versionResult = await runCommand("adb", [
+async function readCpuLoadPerCore(config: Config): Promise<number | undefined> {
+  const { success, stdout } = await runAdb(config, [
     "shell",
-    "getprop",
-    "ro.build.version.release",
+    "cat /proc/loadavg; nproc",
   ]);
-  if (versionResult.success) {
-    info.androidVersion = versionResult.stdout.trim();
-  }
+  if (!success) return undefined;
 
-  return info;
+  const [loadLine = "", coresLine = ""] = stdout.trim().split("\n");
+  const load = parseFloat(loadLine);
+  const cores = parseInt(coresLine, 10);
+  if (Number.isNaN(load) || !(cores > 0)) return undefined;
+  return load / cores;
 }
 
-async function processTraceData(
-  config: Config,
-  tracePath: string,
-  iteration: number
-): Promise<void> {
-  console.log(`Processing trace data from ${tracePath}...`);
+async function waitForCpuIdle(config: Config): Promise<CpuIdleWait> {
+  const started = Date.now();
+  let loadPerCore = await readCpuLoadPerCore(config);
 
-  const metricsPath = `${config.outputDir}/metrics_${iteration}.txt`;
-  const metrics: Record<string, number> = {};
+  while (
+    loadPerCore !== undefined &&
+    loadPerCore > config.maxCpuLoadPerCore &&
+    Date.now() - started < CPU_IDLE_TIMEOUT_MS
+  ) {
+    console.log(
+      `CPU load ${loadPerCore.toFixed(
+        2
+      )} per core, waiting for it to drop below ${config.maxCpuLoadPerCore}...`
+    );
+    await new Promise((resolve) =>
+      setTimeout(resolve, CPU_IDLE_POLL_INTERVAL_MS)
+    );
+    loadPerCore = await readCpuLoadPerCore(config);
+  }
 
-  try {
-    const traceContent = await Deno.readTextFile(tracePath);
+  const settled =
+    loadPerCore !== undefined && loadPerCore <= config.maxCpuLoadPerCore;
+  if (!settled) {
+    console.warn(
+      loadPerCore === undefined
+        ? "Could not read the CPU load"
+        : `CPU load still ${loadPerCore.toFixed(2)} per core after ${
+            CPU_IDLE_TIMEOUT_MS / 1000
+          }s, launching anyway`
+    );
+  }
+
+  return {
+    loadPerCore:
+      loadPerCore === undefined
+        ? undefined
+        : parseFloat(loadPerCore.toFixed(2)),
+    settled,
+    waitedMs: Date.now() - started,
+  };
+}
+
+async function readCpuFrequencySettings(
+  config: Config
+): Promise<CpuFrequencySetting[]> {
+  const { success, stdout } = await runAdb(
+    config,
+    [
+      "shell",
+      "for d in /sys/devices/system/cpu/cpu[0-9]*/cpufreq; do " +
+        'echo "$d $(cat $d/scaling_governor) $(cat $d/scaling_min_freq) $(cat $d/scaling_max_freq)"; ' +
+        "done",
+    ],
+    { stderr: "null" }
+  );
+  if (!success) return [];
+
+  const settings: CpuFrequencySetting[] = [];
+  for (const line of stdout.trim().split("\n")) {
+    const match = line.match(/cpu(\d+)\/cpufreq (\S+) (\d+) (\d+)$/);
+    if (match) {
+      settings.push({
+        cpu: parseInt(match[1], 10),
+        governor: match[2],
+        minFreqKHz: parseInt(match[3], 10),
+        maxFreqKHz: parseInt(match[4], 10),
+      });
+    }
+  }
+  return settings;
+}
+
+// Runs every CPU at its current maximum frequency, so DVFS ramp-up and
+// frequency changes between iterations don't show up in the timings.
+async function pinCpuFrequencies(
+  config: Config
+): Promise<CpuFrequencySetting[]> {
+  const pinned: CpuFrequencySetting[] = [];
+  for (const setting of await readCpuFrequencySettings(config)) {
+    const dir = `/sys/devices/system/cpu/cpu${setting.cpu}/cpufreq`;
+    const { success } = await runAsRoot(
+      config,
+      `echo performance > ${dir}/scaling_governor && echo ${setting.maxFreqKHz} > ${dir}/scaling_min_freq`
+    );
+    if (success) pinned.push(setting);
+  }
+  return pinned;
+}
+
+async function stabilizeDevice(config: Config): Promise<DeviceStabilization> {
+  console.log("Stabilizing device...");
+  const stabilization: DeviceStabilization = {
+    animationsDisabled: true,
+    stayAwake: false,
+    maxCpuLoadPerCore: config.maxCpuLoadPerCore,
+    pinnedCpus: [],
+    original: { animationScales: {}, unrecorded: [] },
+  };
+
+  for (const setting of ANIMATION_SCALE_SETTINGS) {
+    const current = await runAdb(config, [
+      "shell",
+      "settings",
+      "get",
+      "global",
+      setting,
+    ]);
+    if (current.success) {
+      stabilization.original.animationScales[setting] = current.stdout.trim();
+    }
+    const { success } = await runAdb(config, [
+      "shell",
+      "settings",
+      "put",
+      "global",
+      setting,
+      "0",
+    ]);
+    if (success && !current.success) {
+      stabilization.original.unrecorded.push(setting);
+    }
+    stabilization.animationsDisabled &&= success;
+  }
+
+  const stayOn = await runAdb(config, [
+    "shell",
+    "settings",
+    "get",
+    "global",
+    "stay_on_while_plugged_in",
+  ]);
+  if (stayOn.success) {
+    stabilization.original.stayOnWhilePluggedIn = stayOn.stdout.trim();
+  }
+  const { success: stayAwake } = await runAdb(config, [
+    "shell",
+    "svc",
+    "power",
+    "stayon",
+    "true",
+  ]);
+  if (stayAwake && !stayOn.success) {
+    stabilization.original.unrecorded.push("stay_on_while_plugged_in");
+  }
+  stabilization.stayAwake = stayAwake && (await wakeAndUnlock(config));
+
+  stabilization.pinnedCpus = await pinCpuFrequencies(config);
+  if (stabilization.pinnedCpus.length === 0) {
+    console.log(
+      "CPU frequencies not pinned (requires a rooted device or emulator with cpufreq)"
+    );
+  }
+
+  return stabilization;
+}
+
+// Puts back everything stabilizeDevice changed. Returns false if any
+// setting could not be restored.
+async function restoreDevice(
+  config: Config,
+  stabilization: DeviceStabilization
+): Promise<boolean> {
+  console.log("Restoring device settings...");
+  let restored = true;
+
+  // "null" means the setting was unset, so delete it rather than storing
+  // the string.
+  const restoreSetting = async (name: string, value: string) => {
+    const { success } = await runAdb(
+      config,
+      value === "null"
+        ? ["shell", "settings", "delete", "global", name]
+        : ["shell", "settings", "put", "global", name, value]
+    );
+    restored &&= success;
+  };
+
+  for (const [setting, value] of Object.entries(
+    stabilization.original.animationScales
+  )) {
+    await restoreSetting(setting, value);
+  }
+  if (stabilization.original.stayOnWhilePluggedIn !== undefined) {
+    await restoreSetting(
+      "stay_on_while_plugged_in",
+      stabilization.original.stayOnWhilePluggedIn
+    );
+  }
+
+  for (const setting of stabilization.pinnedCpus) {
+    const dir = `/sys/devices/system/cpu/cpu${setting.cpu}/cpufreq`;
+    const { success } = await runAsRoot(
+      config,
+      `echo ${setting.minFreqKHz} > ${dir}/scaling_min_freq && echo ${setting.governor} > ${dir}/scaling_governor`
+    );
+    restored &&= success;
+  }
+
+  const { unrecorded } = stabilization.original;
+  if (unrecorded.length > 0) {
+    console.warn(
+      `Original value unknown, not restored: ${unrecorded.join(", ")}`
+    );
+    restored = false;
+  }
+
+  if (!restored) {
+    console.warn("Some device settings could not be restored");
+  }
+  stabilization.restored = restored;
+  return restored;
+}
+
+// Puts the device into the state the start mode measures from. Returns null
+// when a required step fails and the iteration should be skipped.
+async function prepareStart(config: Config): Promise<StartPreparation | null> {
+  const preparation: StartPreparation = {
+    forceStopped: false,
+    dataCleared: false,
+    cachesDropped: false,
+    sentToBackground: false,
+  };
+
+  if (config.startMode === "hot") {
+    if (!(await isAppRunning(config))) {
+      console.log("Hot mode: app is not running, starting it first...");
+      if (!(await launchApp(config))) return null;
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+
+    preparation.sentToBackground = await sendAppToBackground(config);
+    if (!preparation.sentToBackground) return null;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    return preparation;
+  }
+
+  preparation.forceStopped = await forceStopApp(config);
+  if (!preparation.forceStopped) return null;
+
+  if (config.startMode === "cold") {
+    if (config.clearData) {
+      preparation.dataCleared = await clearAppData(config);
+      if (!preparation.dataCleared) return null;
+    }
+
+    if (config.dropCaches) {
+      preparation.cachesDropped = await dropPageCaches(config);
+      if (!preparation.cachesDropped) {
+        console.warn(
+          "Could not drop page caches (requires a rooted device or emulator)"
+        );
+      }
+    }
+  }
+
+  return preparation;
+}
+
+async function clearAppData(config: Config): Promise<boolean> {
+  console.log("Clearing app data...");
+  const { success } = await runAdb(config, [
+    "shell",
+    "pm",
+    "clear",
+    config.appPackage,
+  ]);
+  return success;
+}
+
+async function startTrace(config: Config): Promise<boolean> {
+  console.log("Starting trace capture...");
+
+  const { success, stderr } = await runAdb(config, [
+    "shell",
+    `atrace --async_start -a ${config.appPackage} -b 16000 -c ${config.traceCategories}`,
+  ]);
+
+  if (!success) {
+    console.error(`Failed to start trace: ${stderr}`);
+    return false;
+  }
+
+  console.log("Trace capture started");
+  return true;
+}
+
+async function stopTrace(config: Config): Promise<boolean> {
+  console.log("Stopping trace capture...");
+
+  const { success, stderr } = await runAdb(config, [
+    "shell",
+    `atrace --async_stop -o ${config.deviceTracePath}`,
+  ]);
+
+  if (!success) {
+    console.error(`Failed to stop trace: ${stderr}`);
+    return false;
+  }
+
+  console.log("Trace capture stopped");
+  return true;
+}
+
+async function launchApp(config: Config): Promise<string> {
+  console.log("Launching app...");
+  const activityName =
+    config.appActivity || `${config.appPackage}.MainActivity`;
+  const { success, stdout, stderr } = await runAdb(config, [
+    "shell",
+    "am",
+    "start-activity",
+    "-W",
+    `${config.appPackage}/${activityName}`,
+  ]);
+
+  if (!success) {
+    console.error(`Failed to launch app: ${stderr}`);
+    return "";
+  }
+
+  return stdout;
+}
+
+function parseLaunchOutput(output: string, mode: RunMode): LaunchMetrics {
+  const field = (name: string): string | undefined =>
+    output.match(new RegExp(`^\\s*${name}:\\s*(.+?)\\s*$`, "m"))?.[1];
+  const millis = (name: string): number | undefined => {
+    const value = field(name);
+    return value !== undefined ? parseInt(value, 10) : undefined;
+  };
+
+  const launch: LaunchMetrics = {
+    status: field("Status"),
+    launchState: field("LaunchState"),
+    activity: field("Activity"),
+    totalTimeMs: millis("TotalTime"),
+    waitTimeMs: millis("WaitTime"),
+    thisTimeMs: millis("ThisTime"),
+  };
+
+  const expectedState = EXPECTED_LAUNCH_STATES[mode];
+  if (launch.launchState && expectedState) {
+    launch.launchStateMismatch =
+      launch.launchState.toUpperCase() !== expectedState;
+  }
+
+  return launch;
+}
+
+async function takeScreenshot(
+  config: Config,
+  outputPath: string
+): Promise<boolean> {
+  console.log("Taking screenshot...");
+  const tempPath = "/sdcard/screen_temp.png";
+
+  const screencap = await runAdb(config, [
+    "shell",
+    "screencap",
+    "-p",
+    tempPath,
+  ]);
+  if (!screencap.success) return false;
+
+  const pull = await runAdb(config, ["pull", tempPath, outputPath]);
+  if (!pull.success) return false;
+
+  await runAdb(config, ["shell", "rm", tempPath]);
+  return true;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Extended regular expression alternation matching any of the markers
+// literally.
+function markerAlternatives(markers: string[]): string {
+  return markers
+    .map((marker) => marker.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("|");
+}
+
+// Trace marks on the lines of the live trace buffer that match the extended
+// regular expression.
+async function readTraceBufferMarks(
+  config: Config,
+  pattern: string
+): Promise<TraceMarkEvent[]> {
+  const { stdout } = await runAdb(
+    config,
+    [
+      "shell",
+      `atrace --async_dump 2>/dev/null | grep -E -e ${shellQuote(pattern)}`,
+    ],
+    { stderr: "null", quiet: true }
+  );
+
+  const events: TraceMarkEvent[] = [];
+  for (const line of stdout.split("\n")) {
+    const event = parseTraceLine(line);
+    if (!event || event.type !== "tracing_mark_write") continue;
+    const mark = decodeTraceMark(event.payload, event.tid);
+    if (mark) events.push({ ...event, mark });
+  }
+  return events;
+}
+
+// Returns which of the markers have begun (sync or async) in the live trace
+// buffer. `atrace --async_dump` prints the buffer without stopping the
+// capture; grep runs on the device so only the matches are transferred.
+async function findMarkersInTraceBuffer(
+  config: Config,
+  markers: string[]
+): Promise<Set<string>> {
+  const events = await readTraceBufferMarks(
+    config,
+    `tracing_mark_write: [BS]\\|[0-9]+\\|(${markerAlternatives(
+      markers
+    )})(\\||[[:space:]]*$)`
+  );
+
+  const found = new Set<string>();
+  for (const event of events) {
+    const name = markName(event);
+    if (name !== undefined && markers.includes(name)) found.add(name);
+  }
+  return found;
+}
+
+// Markers whose slice ended in the live trace buffer: an async F with the
+// name, or the E closing a B with the name. E events carry no name, so the
+// B/E events of the threads that began such a slice are replayed.
+async function findEndedSlicesInTraceBuffer(
+  config: Config,
+  markers: string[]
+): Promise<Set<string>> {
+  const ended = new Set<string>();
+  const tids = new Set<number>();
+  for (const event of await readTraceBufferMarks(
+    config,
+    `tracing_mark_write: [BF]\\|[0-9]+\\|(${markerAlternatives(
+      markers
+    )})(\\||[[:space:]]*$)`
+  )) {
+    if (event.mark.kind === "F") ended.add(event.mark.name);
+    if (event.mark.kind === "B") tids.add(event.tid);
+  }
+  if (tids.size === 0) return ended;
+
+  const stacks = new Map<number, string[]>();
+  for (const event of await readTraceBufferMarks(
+    config,
+    `-(${[...tids].join(
+      "|"
+    )})[[:space:]].*tracing_mark_write: [BE](\\||[[:space:]]*$)`
+  )) {
+    if (!tids.has(event.tid)) continue;
+    const stack = stacks.get(event.tid) ?? [];
+    stacks.set(event.tid, stack);
+    if (event.mark.kind === "B") {
+      stack.push(event.mark.name);
+    } else if (event.mark.kind === "E") {
+      // The buffer may have wrapped past the begin of the oldest slices.
+      const name = stack.pop();
+      if (name !== undefined && markers.includes(name)) ended.add(name);
+    }
+  }
+  return ended;
+}
+
+async function waitForMarker(
+  config: Config,
+  marker: string,
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if ((await findMarkersInTraceBuffer(config, [marker])).has(marker))
+      return true;
+    await new Promise((resolve) =>
+      setTimeout(resolve, MARKER_POLL_INTERVAL_MS)
+    );
+  }
+  return false;
+}
+
+// Keeps the trace recording until every done marker has begun and every
+// done slice has ended, or the timeout passes. Without either this is a plain
+// sleep.
+async function waitForTraceCompletion(
+  config: Config,
+  timeoutMs: number
+): Promise<Omit<TraceStopResult, "recordedMs">> {
+  const { doneMarkers, doneSliceEnds } = config;
+  if (doneMarkers.length === 0 && doneSliceEnds.length === 0) {
+    console.log(`Waiting for ${(timeoutMs / 1000).toFixed(1)} seconds...`);
+    await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+    return { reason: "duration" };
+  }
+
+  console.log(
+    `Waiting up to ${(timeoutMs / 1000).toFixed(
+      1
+    )} seconds for ${describeDoneMarkers(config)}...`
+  );
+  const deadline = Date.now() + timeoutMs;
+  let missingBegins = doneMarkers;
+  let missingEnds = doneSliceEnds;
+  while (true) {
+    if (missingBegins.length > 0) {
+      const found = await findMarkersInTraceBuffer(config, missingBegins);
+      missingBegins = missingBegins.filter((marker) => !found.has(marker));
+    }
+    if (missingEnds.length > 0) {
+      const ended = await findEndedSlicesInTraceBuffer(config, missingEnds);
+      missingEnds = missingEnds.filter((marker) => !ended.has(marker));
+    }
+    if (missingBegins.length === 0 && missingEnds.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, EARLY_STOP_SETTLE_MS));
+      return { reason: "done_markers" };
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    await new Promise((resolve) =>
+      setTimeout(
+        resolve,
+        Math.min(TRACE_COMPLETION_POLL_INTERVAL_MS, remaining)
+      )
+    );
+  }
+
+  const missing = [...missingBegins, ...missingEnds];
+  console.warn(`Timed out waiting for ${missing.join(", ")}`);
+  return { reason: "timeout", missingMarkers: missing };
+}
+
+function describeDoneMarkers(config: Config): string {
+  return [
+    ...config.doneMarkers,
+    ...config.doneSliceEnds.map((marker) => `end of ${marker}`),
+  ].join(", ");
+}
+
+function describeScenarioStep(step: ScenarioStep): string {
+  switch (step.action) {
+    case "tap":
+      return `tap ${step.x},${step.y}`;
+    case "swipe":
+      return `swipe ${step.x1},${step.y1} -> ${step.x2},${step.y2}`;
+    case "text":
+      return `text "${step.text}"`;
+    case "keyevent":
+      return `keyevent ${step.key}`;
+    case "deeplink":
+      return `deep link ${step.url}`;
+    case "wait":
+      return `wait ${step.ms} ms`;
+    case "waitForMarker":
+      return `wait for marker ${step.marker}`;
+    case "screenshot":
+      return `screenshot ${step.name ?? ""}`.trim();
+  }
+}
+
+async function runScenarioStep(
+  config: Config,
+  step: ScenarioStep,
+  screenshotPath: string
+): Promise<ScenarioStepStatus> {
+  const input = async (...args: string[]): Promise<ScenarioStepStatus> =>
+    (await runAdb(config, ["shell", "input", ...args])).success
+      ? "ok"
+      : "failed";
+
+  switch (step.action) {
+    case "tap":
+      return await input("tap", String(step.x), String(step.y));
+    case "swipe":
+      return await input(
+        "swipe",
+        String(step.x1),
+        String(step.y1),
+        String(step.x2),
+        String(step.y2),
+        String(step.durationMs ?? 300)
+      );
+    case "text":
+      // `input text` treats %s as a space and needs shell-safe quoting.
+      return await input("text", shellQuote(step.text.replace(/ /g, "%s")));
+    case "keyevent":
+      return await input("keyevent", String(step.key));
+    case "deeplink": {
+      const { success } = await runAdb(config, [
+        "shell",
+        "am",
+        "start",
+        "-W",
+        "-a",
+        "android.intent.action.VIEW",
+        "-d",
+        shellQuote(step.url),
+        config.appPackage,
+      ]);
+      return success ? "ok" : "failed";
+    }
+    case "wait":
+      await new Promise((resolve) => setTimeout(resolve, step.ms));
+      return "ok";
+    case "waitForMarker":
+      return (await waitForMarker(
+        config,
+        step.marker,
+        step.timeoutMs ?? DEFAULT_MARKER_WAIT_TIMEOUT_MS
+      ))
+        ? "ok"
+        : "timeout";
+    case "screenshot":
+      return (await takeScreenshot(config, screenshotPath)) ? "ok" : "failed";
+  }
+}
+
+// Runs the steps in order and stops at the first one that fails, since later
+// steps usually depend on the screen an earlier one navigated to.
+async function runScenario(
+  config: Config,
+  scenario: Scenario,
+  label: string
+): Promise<ScenarioStepResult[]> {
+  console.log(`Running scenario ${scenario.name}...`);
+  const results: ScenarioStepResult[] = [];
+  let failed = false;
+
+  for (const [index, step] of scenario.steps.entries()) {
+    const description = describeScenarioStep(step);
+    if (failed) {
+      results.push({ action: step.action, description, status: "skipped" });
+      continue;
+    }
+
+    console.log(`Scenario step ${index + 1}: ${description}`);
+    const name =
+      step.action === "screenshot" ? step.name ?? `step${index + 1}` : "";
+    const started = Date.now();
+    const status = await runScenarioStep(
+      config,
+      step,
+      `${config.outputDir}/screenshot_${label}_${name}.png`
+    );
+    results.push({
+      action: step.action,
+      description,
+      status,
+      elapsedMs: Date.now() - started,
+    });
+
+    if (status !== "ok") {
+      console.error(`Scenario step ${index + 1} (${description}): ${status}`);
+      failed = true;
+    }
+  }
+
+  return results;
+}
+
+async function pullTraceFile(
+  config: Config,
+  localPath: string
+): Promise<boolean> {
+  console.log("Pulling trace file...");
+
+  const { success, stderr } = await runAdb(config, [
+    "pull",
+    config.deviceTracePath,
+    localPath,
+  ]);
+
+  if (!success) {
+    console.error(`Failed to pull trace file: ${stderr}`);
+    return false;
+  }
+
+  console.log(`Successfully pulled trace file to ${localPath}`);
+  return true;
+}
+
+async function resetFrameStats(config: Config): Promise<boolean> {
+  const { success } = await runAdb(config, [
+    "shell",
+    "dumpsys",
+    "gfxinfo",
+    config.appPackage,
+    "reset",
+  ]);
+  return success;
+}
+
+async function collectFrameStats(
+  config: Config,
+  outputPath: string
+): Promise<FrameStats | undefined> {
+  console.log("Collecting frame statistics...");
+  const { success, stdout } = await runAdb(config, [
+    "shell",
+    "dumpsys",
+    "gfxinfo",
+    config.appPackage,
+    "framestats",
+  ]);
+  if (!success) return undefined;
+
+  await Deno.writeTextFile(outputPath, stdout);
+
+  const frameStats = parseFrameStats(stdout);
+  if (!frameStats) {
+    console.warn("No frame statistics found in gfxinfo output");
+  }
+  return frameStats;
+}
+
+function parseFrameStats(output: string): FrameStats | undefined {
+  const counter = (label: string): number | undefined => {
+    const match = output.match(new RegExp(`^\\s*${label}:\\s*(\\d+)`, "m"));
+    return match ? parseInt(match[1], 10) : undefined;
+  };
+
+  // Every window of the app gets its own PROFILEDATA block: a CSV header
+  // followed by one row per frame, timestamps in nanoseconds.
+  const frameTimes: number[] = [];
+  const blocks = output.split("---PROFILEDATA---");
+  for (let i = 1; i < blocks.length; i += 2) {
+    const lines = blocks[i].trim().split("\n");
+    const header = lines[0]?.split(",") ?? [];
+    const flagsIndex = header.indexOf("Flags");
+    const intendedVsyncIndex = header.indexOf("IntendedVsync");
+    const completedIndex = header.indexOf("FrameCompleted");
+    if (intendedVsyncIndex === -1 || completedIndex === -1) continue;
+
+    for (const line of lines.slice(1)) {
+      const columns = line.split(",");
+      // Non-zero flags mark frames Android itself excludes from jank stats
+      // (window changes, first draw after a layout, ...).
+      if (flagsIndex !== -1 && columns[flagsIndex] !== "0") continue;
+
+      const intendedVsync = Number(columns[intendedVsyncIndex]);
+      const completed = Number(columns[completedIndex]);
+      if (!intendedVsync || !completed || completed < intendedVsync) continue;
+
+      frameTimes.push((completed - intendedVsync) / 1e6);
+    }
+  }
+
+  const totalFrames = counter("Total frames rendered");
+  if (totalFrames === undefined && frameTimes.length === 0) return undefined;
+
+  const jankyMatch = output.match(/^\s*Janky frames:\s*(\d+)/m);
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const frameTime = (p: number) => parseFloat(percentile(sorted, p).toFixed(2));
+
+  // Without the summary header, fall back to a 60 Hz frame budget.
+  const jankyFrames = jankyMatch
+    ? parseInt(jankyMatch[1], 10)
+    : frameTimes.filter((frameTimeMs) => frameTimeMs > 1000 / 60).length;
+  const frameCount = totalFrames ?? frameTimes.length;
+
+  return {
+    totalFrames: frameCount,
+    jankyFrames,
+    jankyPercent:
+      frameCount > 0
+        ? parseFloat(((jankyFrames / frameCount) * 100).toFixed(2))
+        : 0,
+    missedVsync: counter("Number Missed Vsync") ?? 0,
+    slowUiThread: counter("Number Slow UI thread") ?? 0,
+    slowBitmapUploads: counter("Number Slow bitmap uploads") ?? 0,
+    slowIssueDrawCommands: counter("Number Slow issue draw commands"),
+    profiledFrames: frameTimes.length,
+    frameTimeMs:
+      sorted.length > 0
+        ? {
+            avg: parseFloat(
+              (
+                sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+              ).toFixed(2)
+            ),
+            p50: frameTime(50),
+            p90: frameTime(90),
+            p95: frameTime(95),
+            p99: frameTime(99),
+          }
+        : undefined,
+  };
+}
+
+async function collectMemoryInfo(
+  config: Config,
+  outputPath: string
+): Promise<MemorySnapshot | undefined> {
+  console.log("Collecting memory information...");
+  const { success, stdout } = await runAdb(config, [
+    "shell",
+    "dumpsys",
+    "meminfo",
+    config.appPackage,
+  ]);
+  if (!success) return undefined;
+
+  await Deno.writeTextFile(outputPath, stdout);
+
+  const memory = parseMemoryInfo(stdout);
+  if (!memory) {
+    console.warn(`No memory information found for ${config.appPackage}`);
+  }
+  return memory;
+}
+
+function parseMemoryInfo(output: string): MemorySnapshot | undefined {
+  // App Summary and Objects rows look like "Java Heap:   12345", with two
+  // label/value pairs on one line in the Objects section.
+  const labelled = (label: string): number | undefined => {
+    const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = output.match(new RegExp(`(?:^|\\s)${escaped}:\\s+(\\d+)`));
+    return match ? parseInt(match[1], 10) : undefined;
+  };
+
+  // Android 10+ prints "TOTAL PSS:"; older versions only have the TOTAL row,
+  // whose first column is the PSS total.
+  const totalPss =
+    labelled("TOTAL PSS") ??
+    parseInt(output.match(/^\s*TOTAL:?\s+(\d+)/m)?.[1] ?? "", 10);
+  if (Number.isNaN(totalPss)) return undefined;
+
+  const objects: Record<string, number> = {};
+  for (const label of MEMORY_OBJECT_COUNTS) {
+    const count = labelled(label);
+    if (count !== undefined) objects[label] = count;
+  }
+
+  return {
+    totalPssKb: totalPss,
+    totalRssKb: labelled("TOTAL RSS"),
+    javaHeapKb: labelled("Java Heap"),
+    nativeHeapKb: labelled("Native Heap"),
+    graphicsKb: labelled("Graphics"),
+    codeKb: labelled("Code"),
+    stackKb: labelled("Stack"),
+    objects,
+  };
+}
+
+// Takes a memory snapshot as soon as each paired marker's end shows up in
+// the live trace buffer: its end marker began or, for a same-name pair, its
+// slice ended. Runs until all were seen or the signal aborts. A snapshot
+// lands up to one poll interval (plus the dumpsys time) after its marker.
+async function collectMemoryAtMarkers(
+  config: Config,
+  label: string,
+  signal: AbortSignal
+): Promise<Record<string, MemorySnapshot>> {
+  const snapshots: Record<string, MemorySnapshot> = {};
+  let pending = config.pairedMarkers;
+
+  while (pending.length > 0 && !signal.aborted) {
+    const endMarkers = [
+      ...new Set(
+        pending.filter((pair) => pair.start !== pair.end).map((p) => p.end)
+      ),
+    ];
+    const sliceEnds = [
+      ...new Set(
+        pending.filter((pair) => pair.start === pair.end).map((p) => p.end)
+      ),
+    ];
+    const begun =
+      endMarkers.length > 0
+        ? await findMarkersInTraceBuffer(config, endMarkers)
+        : new Set<string>();
+    const ended =
+      sliceEnds.length > 0
+        ? await findEndedSlicesInTraceBuffer(config, sliceEnds)
+        : new Set<string>();
+    const found = (pair: PairedMarker) =>
+      pair.start === pair.end ? ended.has(pair.end) : begun.has(pair.end);
+
+    for (const pair of pending.filter(found)) {
+      const memory = await collectMemoryInfo(
+        config,
+        `${config.outputDir}/meminfo_${label}_${pair.name}.txt`
+      );
+      if (memory) snapshots[pair.name] = memory;
+    }
+
+    pending = pending.filter((pair) => !found(pair));
+    if (pending.length > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, MARKER_POLL_INTERVAL_MS)
+      );
+    }
+  }
+  return snapshots;
+}
+
+async function getDeviceInfo(config: Config): Promise<DeviceInfo> {
+  console.log("Getting device information...");
+  const info: DeviceInfo = { serial: config.serial };
+
+  const modelResult = await runAdb(config, [
+    "shell",
+    "getprop",
+    "ro.product.model",
+  ]);
+  if (modelResult.success) {
+    info.model = modelResult.stdout.trim();
+  }
+
+  const versionResult = await runAdb(config, [
+    "shell",
+    "getprop",
+    "ro.build.version.release",
+  ]);
+  if (versionResult.success) {
+    info.androidVersion = versionResult.stdout.trim();
+  }
+
+  // The first line of the latency dump is the display refresh period in ns.
+  const latencyResult = await runAdb(config, [
+    "shell",
+    "dumpsys",
+    "SurfaceFlinger",
+    "--latency",
+  ]);
+  const refreshPeriodNs = parseInt(latencyResult.stdout.trim().split("\n")[0]);
+  if (latencyResult.success && refreshPeriodNs > 0) {
+    info.refreshPeriodMs = parseFloat((refreshPeriodNs / 1e6).toFixed(3));
+  }
+
+  return info;
+}
+
+function normalizeTimestamp(timestamp: number): number {
+  if (timestamp > 1000000) {
+    return parseFloat((timestamp / 1000000).toFixed(3));
+  }
+  return timestamp;
+}
+
+function roundSeconds(value: number): number {
+  return parseFloat(value.toFixed(3));
+}
+
+function buildMarkerResult(
+  name: string,
+  spans: MarkerSpan[],
+  appStartTimestamp: number | undefined
+): MarkerResult {
+  const occurrences = spans.map((span): MarkerOccurrence => {
+    const normalized = normalizeTimestamp(span.start);
+    return {
+      timestamp: normalized,
+      timeFromStart: appStartTimestamp
+        ? roundSeconds(normalized - appStartTimestamp)
+        : undefined,
+      duration:
+        span.end !== undefined
+          ? roundSeconds(normalizeTimestamp(span.end) - normalized)
+          : undefined,
+      status: span.status,
+    };
+  });
+
+  return {
+    name,
+    status: occurrences.length > 0 ? "found" : "not_found",
+    occurrences,
+  };
+}
+
+// One ftrace text line, e.g.
+//   RenderThread-4521  ( 4498) [002] d..1  8123.456789: tracing_mark_write: B|4498|DrawFrame
+// The TGID column and the irq/preempt flags are optional depending on the
+// kernel and atrace version.
+const FTRACE_LINE_PATTERN =
+  /^\s*(.+)-(\d+)\s+(?:\(\s*(\d+|-+)\)\s+)?\[(\d+)\]\s+(?:(\S{4,5})\s+)?(\d+\.\d+):\s+([\w:]+):\s?(.*)$/;
+
+function parseTraceLine(line: string): TraceEvent | null {
+  const match = line.match(FTRACE_LINE_PATTERN);
+  if (!match) return null;
+
+  const [, task, tid, tgid, cpu, flags, timestamp, type, payload] = match;
+  const pid = tgid && !tgid.startsWith("-") ? parseInt(tgid, 10) : undefined;
+
+  return {
+    task: task.trim(),
+    pid,
+    tid: parseInt(tid, 10),
+    cpu: parseInt(cpu, 10),
+    flags: flags || "",
+    timestamp: parseFloat(timestamp),
+    type,
+    payload,
+  };
+}
+
+function decodeTraceMark(payload: string, tid: number): TraceMark | null {
+  const fields = payload.trim().split("|");
+  const kind = fields[0];
+  const pid = fields[1] ? parseInt(fields[1], 10) : tid;
+  if (Number.isNaN(pid)) return null;
+
+  switch (kind) {
+    case "B":
+      if (fields.length < 3) return null;
+      return { kind, pid, name: fields.slice(2).join("|") };
+    case "E":
+      return { kind, pid };
+    case "C": {
+      if (fields.length < 4) return null;
+      const value = parseFloat(fields[fields.length - 1]);
+      if (Number.isNaN(value)) return null;
+      return { kind, pid, name: fields.slice(2, -1).join("|"), value };
+    }
+    case "S":
+    case "F": {
+      if (fields.length < 4) return null;
+      const cookie = parseInt(fields[fields.length - 1], 10);
+      if (Number.isNaN(cookie)) return null;
+      return { kind, pid, name: fields.slice(2, -1).join("|"), cookie };
+    }
+    default:
+      return null;
+  }
+}
+
+async function* readTraceLines(path: string): AsyncGenerator<string> {
+  const file = await Deno.open(path, { read: true });
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  for await (const chunk of file.readable) {
+    pending += decoder.decode(chunk, { stream: true });
+    const lastNewline = pending.lastIndexOf("\n");
+    if (lastNewline === -1) continue;
+
+    const lines = pending.slice(0, lastNewline).split("\n");
+    pending = pending.slice(lastNewline + 1);
+    yield* lines;
+  }
+
+  pending += decoder.decode();
+  if (pending) yield pending;
+}
+
+async function* streamTraceEvents(path: string): AsyncGenerator<TraceEvent> {
+  for await (const line of readTraceLines(path)) {
+    if (line.startsWith("#")) continue;
+
+    const event = parseTraceLine(line);
+    if (event) yield event;
+  }
+}
+
+async function parseTrace(
+  tracePath: string,
+  appPackage: string
+): Promise<TraceModel> {
+  const model: TraceModel = {
+    eventCount: 0,
+    appPids: new Set(),
+    marks: [],
+    slices: [],
+    asyncSlices: [],
+    counters: [],
+    unmatchedEnds: [],
+    threadNames: new Map(),
+    threadPids: new Map(),
+    keyThreads: new Map(),
+    threadStates: new Map(),
+  };
+  const openSlices = new Map<number, TraceSlice[]>();
+  const openAsyncSlices = new Map<string, TraceSlice[]>();
+  const counterTracks = new Map<string, CounterTrack>();
+
+  for await (const event of streamTraceEvents(tracePath)) {
+    model.eventCount++;
+    model.firstTimestamp ??= event.timestamp;
+    model.lastTimestamp = event.timestamp;
+    model.threadNames.set(event.tid, event.task);
+    if (event.pid !== undefined) {
+      model.threadPids.set(event.tid, event.pid);
+    }
+
+    if (
+      event.pid !== undefined &&
+      isAppMainThreadName(event.task, appPackage)
+    ) {
+      model.appPids.add(event.pid);
+    }
+
+    if (
+      model.firstAppMentionTimestamp === undefined &&
+      event.payload.includes(appPackage)
+    ) {
+      model.firstAppMentionTimestamp = event.timestamp;
+    }
+
+    if (
+      event.type === "sched_switch" ||
+      event.type === "sched_wakeup" ||
+      event.type === "sched_waking"
+    ) {
+      recordThreadStateChange(model, event, appPackage);
+      continue;
+    }
+
+    if (event.type !== "tracing_mark_write") continue;
+
+    const mark = decodeTraceMark(event.payload, event.tid);
+    if (!mark) continue;
+
+    const markEvent: TraceMarkEvent = { ...event, mark };
+    model.marks.push(markEvent);
+
+    // Sync slices always begin and end on the same thread, so a stack per
+    // tid is enough to pair them up, including nested sections.
+    const stack = openSlices.get(event.tid) ?? [];
+    if (mark.kind === "B") {
+      const slice: TraceSlice = {
+        name: mark.name,
+        pid: mark.pid,
+        tid: event.tid,
+        depth: stack.length,
+        start: event.timestamp,
+      };
+      stack.push(slice);
+      openSlices.set(event.tid, stack);
+      model.slices.push(slice);
+    } else if (mark.kind === "E") {
+      const slice = stack.pop();
+      if (slice) {
+        slice.end = event.timestamp;
+      } else {
+        model.unmatchedEnds.push(markEvent);
+      }
+    } else if (mark.kind === "S" || mark.kind === "F") {
+      // Async slices are identified by process, name and cookie rather than
+      // by thread. Identical keys can overlap, so close them in FIFO order.
+      const key = `${mark.pid}|${mark.name}|${mark.cookie}`;
+      const open = openAsyncSlices.get(key) ?? [];
+      if (mark.kind === "S") {
+        const slice: TraceSlice = {
+          name: mark.name,
+          pid: mark.pid,
+          tid: event.tid,
+          depth: 0,
+          start: event.timestamp,
+          cookie: mark.cookie,
+        };
+        open.push(slice);
+        openAsyncSlices.set(key, open);
+        model.asyncSlices.push(slice);
+      } else {
+        const slice = open.shift();
+        if (slice) {
+          slice.end = event.timestamp;
+        } else {
+          model.unmatchedEnds.push(markEvent);
+        }
+      }
+    } else if (mark.kind === "C") {
+      const key = `${mark.pid}|${mark.name}`;
+      let track = counterTracks.get(key);
+      if (!track) {
+        track = { name: mark.name, pid: mark.pid, samples: [] };
+        counterTracks.set(key, track);
+        model.counters.push(track);
+      }
+      track.samples.push({ timestamp: event.timestamp, value: mark.value });
+    }
+  }
+
+  return model;
+}
+
+// prev_comm=mqt_js prev_pid=4530 prev_prio=120 prev_state=S ==> next_comm=swapper/2 next_pid=0 next_prio=120
+const SCHED_SWITCH_PATTERN =
+  /prev_comm=(.*) prev_pid=(\d+) .*prev_state=(\S+) ==> next_comm=(.*) next_pid=(\d+)/;
+// comm=mqt_js pid=4530 prio=120 target_cpu=002
+const SCHED_WAKEUP_PATTERN = /^comm=(.*) pid=(\d+) /;
+
+// comm is cut to 15 characters, so mqt_native_modules shows up as
+// mqt_native_modu.
+function keyThreadOf(comm: string, appPackage: string): KeyThread | undefined {
+  if (isAppMainThreadName(comm, appPackage)) return "main";
+  if (comm === "mqt_js") return "mqt_js";
+  if (comm.startsWith("mqt_native_modu")) return "mqt_native_modules";
+  if (comm === "RenderThread") return "RenderThread";
+  if (/^(hades|hermes)/i.test(comm)) return "hermes_gc";
+  return undefined;
+}
+
+// prev_state R (or R+) means the thread was preempted while still runnable,
+// D (D|K, DK) means an uninterruptible wait, usually I/O. Everything else
+// (S, T, X, ...) counts as sleeping.
+function threadStateFromPrevState(prevState: string): ThreadState {
+  if (prevState.startsWith("R")) return "runnable";
+  if (prevState.startsWith("D")) return "uninterruptible";
+  return "sleeping";
+}
+
+function recordThreadStateChange(
+  model: TraceModel,
+  event: TraceEvent,
+  appPackage: string
+) {
+  const record = (comm: string, tid: number, state: ThreadState) => {
+    const thread = keyThreadOf(comm, appPackage);
+    if (!thread) return;
+
+    model.keyThreads.set(tid, thread);
+    const changes = model.threadStates.get(tid) ?? [];
+    changes.push({ timestamp: event.timestamp, state });
+    model.threadStates.set(tid, changes);
+  };
+
+  if (event.type === "sched_switch") {
+    const match = event.payload.match(SCHED_SWITCH_PATTERN);
+    if (!match) return;
+    record(
+      match[1],
+      parseInt(match[2], 10),
+      threadStateFromPrevState(match[3])
+    );
+    record(match[4], parseInt(match[5], 10), "running");
+  } else {
+    const match = event.payload.match(SCHED_WAKEUP_PATTERN);
+    if (!match) return;
+    // A wakeup of a thread that is already running changes nothing.
+    const tid = parseInt(match[2], 10);
+    if (model.threadStates.get(tid)?.at(-1)?.state !== "running") {
+      record(match[1], tid, "runnable");
+    }
+  }
+}
+
+// The main thread's comm is the process name trimmed to the kernel's 15
+// character limit, which Android does by keeping the tail of the package.
+function isAppMainThreadName(task: string, appPackage: string): boolean {
+  return task.length > 0 && task === appPackage.slice(-15);
+}
+
+function getSliceBalance(model: TraceModel): SliceBalance {
+  const inScope = (pid: number | undefined) =>
+    model.appPids.size === 0 || (pid !== undefined && model.appPids.has(pid));
+
+  return {
+    scope: model.appPids.size > 0 ? "app" : "trace",
+    unterminatedSlices: [...model.slices, ...model.asyncSlices].filter(
+      (slice) => slice.end === undefined && inScope(slice.pid)
+    ).length,
+    unmatchedEnds: model.unmatchedEnds.filter((event) =>
+      inScope(event.mark.pid)
+    ).length,
+  };
+}
+
+function markName(event: TraceMarkEvent): string | undefined {
+  return event.mark.kind === "E" ? undefined : event.mark.name;
+}
+
+function findAppStartTimestamp(
+  model: TraceModel,
+  appPackage: string
+): number | undefined {
+  const mentionsApp = (name: string) => name.includes(appPackage);
+
+  // Ordered from most to least specific, like the markers a human would look
+  // for first when reading the trace.
+  const appStartMatchers: Array<{
+    description: string;
+    matches: (name: string, event: TraceMarkEvent) => boolean;
+  }> = [
+    {
+      description: "Startup slice",
+      matches: (name, event) =>
+        event.mark.kind === "B" && name.startsWith("Startup"),
+    },
+    {
+      description: "APPLICATION_START",
+      matches: (name) => name.includes("APPLICATION_START"),
+    },
+    {
+      description: "ActivityManager START",
+      matches: (name) =>
+        /Activity(?:Task)?Manager.*START/.test(name) && mentionsApp(name),
+    },
+    {
+      description: "Displayed",
+      matches: (name) => name.includes("Displayed") && mentionsApp(name),
+    },
+    ...[
+      "am_create_activity",
+      "am_on_resume_called",
+      "am_proc_start",
+      "am_create_task",
+    ].map((tag) => ({
+      description: tag,
+      matches: (name: string) => name.includes(tag) && mentionsApp(name),
+    })),
+  ];
+
+  for (const matcher of appStartMatchers) {
+    const event = model.marks.find((candidate) => {
+      const name = markName(candidate);
+      return name !== undefined && matcher.matches(name, candidate);
+    });
+    if (event) {
+      console.log(
+        `Found app start timestamp: ${event.timestamp} using ${matcher.description}`
+      );
+      return event.timestamp;
+    }
+  }
+
+  if (model.firstAppMentionTimestamp !== undefined) {
+    console.log(
+      `Using first mention of app package as start time: ${model.firstAppMentionTimestamp}`
+    );
+    return model.firstAppMentionTimestamp;
+  }
+
+  if (model.firstTimestamp !== undefined) {
+    console.log(
+      `Using first timestamp in trace as app start: ${model.firstTimestamp}`
+    );
+    return model.firstTimestamp;
+  }
+
+  return undefined;
+}
+
+// Pairs each end marker with the most recent unmatched start, so nested
+// operations (start A, start B, end B, end A) are measured correctly and an
+// end is never paired with a start that comes after it. A pair naming the
+// same marker twice measures that slice itself, e.g. a
+// Trace.beginAsyncSection / endAsyncSection pair.
+function pairMarkerOccurrences(
+  pair: PairedMarker,
+  start: MarkerResult,
+  end: MarkerResult
+): {
+  occurrences: PairedOccurrence[];
+  unmatchedStarts: number;
+  unmatchedEnds: number;
+} {
+  if (pair.start === pair.end) {
+    const complete = start.occurrences.filter(
+      (occurrence) => occurrence.duration !== undefined
+    );
+    return {
+      occurrences: complete.map((occurrence) => ({
+        start: occurrence.timestamp,
+        end: roundSeconds(occurrence.timestamp + (occurrence.duration ?? 0)),
+        timeFromStart: occurrence.timeFromStart,
+        duration: occurrence.duration ?? 0,
+      })),
+      unmatchedStarts: start.occurrences.length - complete.length,
+      unmatchedEnds: 0,
+    };
+  }
+
+  const events = [
+    ...start.occurrences.map((occurrence) => ({ occurrence, isStart: true })),
+    ...end.occurrences.map((occurrence) => ({ occurrence, isStart: false })),
+  ].sort(
+    (a, b) =>
+      a.occurrence.timestamp - b.occurrence.timestamp ||
+      Number(b.isStart) - Number(a.isStart)
+  );
+
+  const open: MarkerOccurrence[] = [];
+  const occurrences: PairedOccurrence[] = [];
+  let unmatchedEnds = 0;
+
+  for (const { occurrence, isStart } of events) {
+    if (isStart) {
+      open.push(occurrence);
+      continue;
+    }
+
+    const opened = open.pop();
+    if (!opened) {
+      unmatchedEnds++;
+      continue;
+    }
+
+    occurrences.push({
+      start: opened.timestamp,
+      end: occurrence.timestamp,
+      timeFromStart: opened.timeFromStart,
+      duration: roundSeconds(occurrence.timestamp - opened.timestamp),
+    });
+  }
+
+  occurrences.sort((a, b) => a.start - b.start);
+  return { occurrences, unmatchedStarts: open.length, unmatchedEnds };
+}
+
+function selectPairedDuration(
+  pair: PairedMarker,
+  occurrences: PairedOccurrence[]
+): number | undefined {
+  if (occurrences.length === 0) return undefined;
+
+  switch (pair.aggregation ?? "first") {
+    case "first":
+      return occurrences[0].duration;
+    case "last":
+      return occurrences[occurrences.length - 1].duration;
+    case "nth":
+      return occurrences[(pair.nth ?? 1) - 1]?.duration;
+    case "all":
+      return roundSeconds(
+        percentile(
+          occurrences
+            .map((occurrence) => occurrence.duration)
+            .sort((a, b) => a - b),
+          50
+        )
+      );
+  }
+}
+
+// Linear interpolation between closest ranks; `sortedValues` must be sorted
+// ascending and non-empty.
+function percentile(sortedValues: number[], p: number): number {
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return (
+    sortedValues[lower] +
+    (sortedValues[upper] - sortedValues[lower]) * (rank - lower)
+  );
+}
+
+const DEFAULT_REFRESH_PERIOD_MS = 1000 / 60;
+const WORST_FRAMES_REPORTED = 10;
+
+// Rebuilds the app's frames from Choreographer#doFrame (UI thread) and
+// DrawFrame (RenderThread) slices and attributes each frame over the refresh
+// budget to whichever stage spent the most time on it. GPU wait is the time
+// RenderThread spent blocked in dequeueBuffer or waiting on GPU fences inside
+// DrawFrame.
+function analyzeTraceFrames(
+  model: TraceModel,
+  refreshPeriodMs: number,
+  appStartTimestamp: number | undefined,
+  pairedMarkers: PairedMarkerResult[]
+): TraceJankAnalysis | undefined {
+  if (model.appPids.size === 0) return undefined;
+
+  const sliceMs = (slice: TraceSlice) =>
+    slice.end !== undefined ? (slice.end - slice.start) * 1000 : 0;
+  const appSlices = model.slices.filter(
+    (slice) => model.appPids.has(slice.pid) && slice.end !== undefined
+  );
+  const doFrames = appSlices.filter(
+    (slice) =>
+      slice.tid === slice.pid && slice.name.startsWith("Choreographer#doFrame")
+  );
+  const renderThreadSlices = appSlices.filter(
+    (slice) => model.threadNames.get(slice.tid) === "RenderThread"
+  );
+  const drawFrames = renderThreadSlices.filter((slice) =>
+    slice.name.startsWith("DrawFrame")
+  );
+  const traversals = appSlices.filter((slice) => slice.name === "traversal");
+  if (doFrames.length === 0 && drawFrames.length === 0) return undefined;
+
+  const childrenOf = (parent: TraceSlice) =>
+    renderThreadSlices.filter(
+      (slice) =>
+        slice.tid === parent.tid &&
+        slice.depth > parent.depth &&
+        slice.start >= parent.start &&
+        (slice.end ?? 0) <= (parent.end ?? 0)
+    );
+
+  const frames: TraceFrame[] = [];
+  const usedDrawFrames = new Set<TraceSlice>();
+
+  const buildFrame = (
+    doFrame: TraceSlice | undefined,
+    drawFrame: TraceSlice | undefined
+  ) => {
+    const children = drawFrame ? childrenOf(drawFrame) : [];
+    const queueBuffer = children.find((slice) =>
+      slice.name.startsWith("queueBuffer")
+    );
+    const gpuWaitMs = children
+      .filter(
+        (slice) =>
+          slice.name.startsWith("dequeueBuffer") ||
+          slice.name.toLowerCase().startsWith("waiting for gpu")
+      )
+      .reduce((sum, slice) => sum + sliceMs(slice), 0);
+    const traversalMs = doFrame
+      ? traversals
+          .filter(
+            (slice) =>
+              slice.tid === doFrame.tid &&
+              slice.start >= doFrame.start &&
+              (slice.end ?? 0) <= (doFrame.end ?? 0)
+          )
+          .reduce((sum, slice) => sum + sliceMs(slice), 0)
+      : 0;
+
+    const start = (doFrame ?? drawFrame)!.start;
+    const end = Math.max(
+      doFrame?.end ?? 0,
+      queueBuffer?.end ?? drawFrame?.end ?? 0
+    );
+    const timestamp = normalizeTimestamp(start);
+    const uiThreadMs = doFrame ? sliceMs(doFrame) : 0;
+    const renderThreadMs = drawFrame ? sliceMs(drawFrame) - gpuWaitMs : 0;
+    const durationMs = (end - start) * 1000;
+
+    let cause: JankCause | undefined;
+    if (durationMs > refreshPeriodMs) {
+      cause = "ui_thread";
+      if (renderThreadMs > uiThreadMs && renderThreadMs >= gpuWaitMs) {
+        cause = "render_thread";
+      } else if (gpuWaitMs > uiThreadMs && gpuWaitMs > renderThreadMs) {
+        cause = "gpu_wait";
+      }
+    }
+
+    frames.push({
+      timestamp,
+      timeFromStart: appStartTimestamp
+        ? roundSeconds(timestamp - appStartTimestamp)
+        : undefined,
+      durationMs: parseFloat(durationMs.toFixed(2)),
+      uiThreadMs: parseFloat(uiThreadMs.toFixed(2)),
+      traversalMs: parseFloat(traversalMs.toFixed(2)),
+      renderThreadMs: parseFloat(renderThreadMs.toFixed(2)),
+      gpuWaitMs: parseFloat(gpuWaitMs.toFixed(2)),
+      cause,
+      pairedMarkers: pairedMarkers
+        .filter((pair) =>
+          (pair.occurrences ?? []).some(
+            (occurrence) =>
+              timestamp >= occurrence.start && timestamp <= occurrence.end
+          )
+        )
+        .map((pair) => pair.name),
+    });
+  };
+
+  for (const [index, doFrame] of doFrames.entries()) {
+    const next = doFrames
+      .slice(index + 1)
+      .find((candidate) => candidate.pid === doFrame.pid);
+    // RenderThread picks the frame up once the UI thread syncs it, so its
+    // DrawFrame starts inside (or right after) doFrame and before the next
+    // doFrame of the same process.
+    const drawFrame = drawFrames.find(
+      (candidate) =>
+        !usedDrawFrames.has(candidate) &&
+        candidate.pid === doFrame.pid &&
+        candidate.start >= doFrame.start &&
+        (!next || candidate.start < next.start)
+    );
+    if (drawFrame) usedDrawFrames.add(drawFrame);
+    buildFrame(doFrame, drawFrame);
+  }
+
+  // Frames RenderThread drew on its own (e.g. RenderThread-driven animations).
+  for (const drawFrame of drawFrames) {
+    if (!usedDrawFrames.has(drawFrame)) buildFrame(undefined, drawFrame);
+  }
+
+  frames.sort((a, b) => a.timestamp - b.timestamp);
+  const janky = frames.filter((frame) => frame.cause !== undefined);
+  const causes: Record<JankCause, number> = {
+    ui_thread: 0,
+    render_thread: 0,
+    gpu_wait: 0,
+  };
+  for (const frame of janky) {
+    causes[frame.cause!]++;
+  }
+
+  return {
+    refreshPeriodMs: parseFloat(refreshPeriodMs.toFixed(3)),
+    totalFrames: frames.length,
+    jankyFrames: janky.length,
+    jankyPercent:
+      frames.length > 0
+        ? parseFloat(((janky.length / frames.length) * 100).toFixed(2))
+        : 0,
+    causes,
+    pairedMarkers: pairedMarkers.map((pair) => ({
+      name: pair.name,
+      frames: frames.filter((frame) => frame.pairedMarkers.includes(pair.name))
+        .length,
+      jankyFrames: janky.filter((frame) =>
+        frame.pairedMarkers.includes(pair.name)
+      ).length,
+    })),
+    worstFrames: [...janky]
+      .sort((a, b) => b.durationMs - a.durationMs)
+      .slice(0, WORST_FRAMES_REPORTED),
+  };
+}
+
+// Adds the ms one thread spent in each scheduler state during the windows,
+// from its state changes (in trace order), to `ms`.
+function addThreadStateTimes(
+  ms: Partial<Record<ThreadState, number>>,
+  changes: ThreadStateChange[],
+  windows: Array<[number, number]>
+) {
+  for (const [start, end] of windows) {
+    let state: ThreadState | undefined;
+    let since = start;
+    for (const change of changes) {
+      if (change.timestamp >= end) break;
+
+      if (state && change.timestamp > start) {
+        ms[state] = (ms[state] ?? 0) + (change.timestamp - since) * 1000;
+      }
+      state = change.state;
+      since = Math.max(change.timestamp, start);
+    }
+    if (state) ms[state] = (ms[state] ?? 0) + (end - since) * 1000;
+  }
+}
+
+// Time each of the app's key threads spent in each scheduler state during
+// the given [start, end] windows (absolute trace seconds).
+function breakDownThreadStates(
+  model: TraceModel,
+  windows: Array<[number, number]>
+): ThreadStateBreakdown[] {
+  const byThread = new Map<KeyThread, ThreadStateBreakdown>();
+
+  for (const [tid, changes] of model.threadStates) {
+    const pid = model.threadPids.get(tid);
+    if (pid === undefined || !model.appPids.has(pid)) continue;
+
+    const thread = model.keyThreads.get(tid)!;
+    let breakdown = byThread.get(thread);
+    if (!breakdown) {
+      breakdown = {
+        thread,
+        tids: [],
+        ms: { running: 0, runnable: 0, sleeping: 0, uninterruptible: 0 },
+      };
+      byThread.set(thread, breakdown);
+    }
+    breakdown.tids.push(tid);
+    addThreadStateTimes(breakdown.ms, changes, windows);
+  }
+
+  // Threads without a known state anywhere in the windows are left out.
+  return (Object.keys(KEY_THREAD_LABELS) as KeyThread[])
+    .map((thread) => byThread.get(thread))
+    .filter(
+      (breakdown): breakdown is ThreadStateBreakdown =>
+        breakdown !== undefined &&
+        Object.values(breakdown.ms).some((ms) => ms > 0)
+    )
+    .map((breakdown) => {
+      for (const state of Object.keys(breakdown.ms) as ThreadState[]) {
+        breakdown.ms[state] = parseFloat(breakdown.ms[state].toFixed(2));
+      }
+      return breakdown;
+    });
+}
+
+// The occurrences of a paired marker that feed its duration.
+function selectPairedOccurrences(
+  pair: PairedMarker,
+  occurrences: PairedOccurrence[]
+): PairedOccurrence[] {
+  switch (pair.aggregation ?? "first") {
+    case "first":
+      return occurrences.slice(0, 1);
+    case "last":
+      return occurrences.slice(-1);
+    case "nth": {
+      const nth = occurrences[(pair.nth ?? 1) - 1];
+      return nth ? [nth] : [];
+    }
+    case "all":
+      return occurrences;
+  }
+}
+
+// Startup runs from t=0 until the activity is fully drawn (or resumed, when
+// the app never calls reportFullyDrawn).
+function buildAnalysisWindows(
+  appStartTimestamp: number | undefined,
+  startupEnd: number | undefined,
+  pairs: PairedMarker[],
+  pairedMarkers: PairedMarkerResult[]
+): AnalysisWindow[] {
+  const windows: AnalysisWindow[] = [];
+  if (appStartTimestamp !== undefined && startupEnd !== undefined) {
+    windows.push({ name: "startup", spans: [[appStartTimestamp, startupEnd]] });
+  }
+  for (const pair of pairs) {
+    const result = pairedMarkers.find(
+      (candidate) => candidate.name === pair.name
+    );
+    const spans = selectPairedOccurrences(pair, result?.occurrences ?? []).map(
+      (occurrence): [number, number] => [occurrence.start, occurrence.end]
+    );
+    if (spans.length > 0) windows.push({ name: pair.name, spans });
+  }
+  return windows;
+}
+
+function analyzeThreadStates(
+  model: TraceModel,
+  windows: AnalysisWindow[]
+): ThreadStateWindow[] | undefined {
+  if (model.threadStates.size === 0 || model.appPids.size === 0) {
+    return undefined;
+  }
+
+  return windows.map(({ name, spans }) => ({
+    name,
+    durationMs: parseFloat(
+      (
+        spans.reduce((sum, [start, end]) => sum + (end - start), 0) * 1000
+      ).toFixed(2)
+    ),
+    threads: breakDownThreadStates(model, spans),
+  }));
+}
+
+// Stretches where the thread was running, runnable or in an uninterruptible
+// wait, i.e. busy with something rather than idle in its looper.
+function findBusyPeriods(
+  changes: ThreadStateChange[],
+  traceEnd: number
+): Array<[number, number]> {
+  const periods: Array<[number, number]> = [];
+  let busySince: number | undefined;
+  for (const change of changes) {
+    if (change.state !== "sleeping") {
+      busySince ??= change.timestamp;
+    } else if (busySince !== undefined) {
+      periods.push([busySince, change.timestamp]);
+      busySince = undefined;
+    }
+  }
+  if (busySince !== undefined) periods.push([busySince, traceEnd]);
+  return periods;
+}
+
+function detectLongTasks(
+  model: TraceModel,
+  appStartTimestamp: number | undefined,
+  windows: AnalysisWindow[],
+  thresholdsMs: Record<LongTaskThread, number>
+): LongTaskAnalysis | undefined {
+  if (model.appPids.size === 0 || windows.length === 0) return undefined;
+
+  const overlap = (start: number, end: number, [from, to]: [number, number]) =>
+    Math.max(0, Math.min(end, to) - Math.max(start, from));
+
+  const threadTids: Record<LongTaskThread, Set<number>> = {
+    main: new Set(),
+    mqt_js: new Set(),
+  };
+  for (const slice of model.slices) {
+    if (!model.appPids.has(slice.pid)) continue;
+    if (slice.tid === slice.pid) threadTids.main.add(slice.tid);
+    if (model.threadNames.get(slice.tid) === "mqt_js") {
+      threadTids.mqt_js.add(slice.tid);
+    }
+  }
+  for (const [tid, thread] of model.keyThreads) {
+    const pid = model.threadPids.get(tid);
+    if (pid === undefined || !model.appPids.has(pid)) continue;
+    if (thread === "main" || thread === "mqt_js") threadTids[thread].add(tid);
+  }
+
+  const tasks: LongTask[] = [];
+  for (const thread of Object.keys(threadTids) as LongTaskThread[]) {
+    const threshold = thresholdsMs[thread] / 1000;
+
+    for (const tid of threadTids[thread]) {
+      const topLevel = model.slices.filter(
+        (slice) =>
+          slice.tid === tid && slice.depth === 0 && slice.end !== undefined
+      );
+      const longSlices = topLevel.filter(
+        (slice) => slice.end! - slice.start > threshold
+      );
+      const changes = model.threadStates.get(tid) ?? [];
+
+      const candidates: Array<Omit<LongTask, "states" | "windows">> = [];
+      for (const slice of longSlices) {
+        candidates.push({
+          thread,
+          tid,
+          source: "slice",
+          name: slice.name,
+          timestamp: slice.start,
+          durationMs: (slice.end! - slice.start) * 1000,
+        });
+      }
+      for (const [start, end] of findBusyPeriods(
+        changes,
+        model.lastTimestamp ?? 0
+      )) {
+        if (end - start <= threshold) continue;
+        if (
+          longSlices.some(
+            (slice) => overlap(start, end, [slice.start, slice.end!]) > 0
+          )
+        ) {
+          continue;
+        }
+
+        let name: string | undefined;
+        let longest = 0;
+        for (const slice of topLevel) {
+          const shared = overlap(start, end, [slice.start, slice.end!]);
+          if (shared > longest) {
+            longest = shared;
+            name = slice.name;
+          }
+        }
+        candidates.push({
+          thread,
+          tid,
+          source: "busy_period",
+          name,
+          timestamp: start,
+          durationMs: (end - start) * 1000,
+        });
+      }
+
+      for (const candidate of candidates) {
+        const end = candidate.timestamp + candidate.durationMs / 1000;
+        const inWindows = windows
+          .filter(({ spans }) =>
+            spans.some((span) => overlap(candidate.timestamp, end, span) > 0)
+          )
+          .map(({ name }) => name);
+        if (inWindows.length === 0) continue;
+
+        const states: Partial<Record<ThreadState, number>> = {};
+        addThreadStateTimes(states, changes, [[candidate.timestamp, end]]);
+        for (const state of Object.keys(states) as ThreadState[]) {
+          states[state] = parseFloat(states[state]!.toFixed(2));
+        }
+
+        const timestamp = normalizeTimestamp(candidate.timestamp);
+        tasks.push({
+          ...candidate,
+          timestamp,
+          timeFromStart: appStartTimestamp
+            ? roundSeconds(timestamp - appStartTimestamp)
+            : undefined,
+          durationMs: parseFloat(candidate.durationMs.toFixed(2)),
+          states,
+          windows: inWindows,
+        });
+      }
+    }
+  }
+  tasks.sort((a, b) => a.timestamp - b.timestamp);
+
+  const threads = (Object.keys(threadTids) as LongTaskThread[]).filter(
+    (thread) => threadTids[thread].size > 0
+  );
+  return {
+    thresholdsMs,
+    tasks,
+    windows: windows.map(({ name }) => ({
+      name,
+      threads: threads.map((thread) => {
+        const inWindow = tasks.filter(
+          (task) => task.thread === thread && task.windows.includes(name)
+        );
+        return {
+          thread,
+          count: inWindow.length,
+          totalMs: parseFloat(
+            inWindow.reduce((sum, task) => sum + task.durationMs, 0).toFixed(2)
+          ),
+        };
+      }),
+    })),
+  };
+}
+
+// Absolute trace seconds in, like the slices; phases come out relative to t=0.
+function buildStartupWaterfall(
+  model: TraceModel,
+  appStartTimestamp: number | undefined,
+  fullyDrawnTimestamp: number | undefined
+): StartupWaterfall | undefined {
+  if (appStartTimestamp === undefined || model.appPids.size === 0) {
+    return undefined;
+  }
+
+  const candidates = [...model.slices, ...model.asyncSlices]
+    .filter(
+      (slice) =>
+        model.appPids.has(slice.pid) &&
+        slice.end !== undefined &&
+        slice.start >= appStartTimestamp
+    )
+    .sort((a, b) => a.start - b.start);
+  const matching = (definition: (typeof STARTUP_PHASE_SLICES)[number]) =>
+    candidates.filter(
+      (slice) =>
+        definition.pattern.test(slice.name) &&
+        (!definition.mainThread || slice.tid === slice.pid)
+    );
+
+  const spans = new Map<StartupPhaseKey, [number, number]>();
+  for (const definition of STARTUP_PHASE_SLICES) {
+    if (definition.merge) continue;
+    // The first frame is the first one drawn for the launched activity, not
+    // one left over from a previous activity of a running process.
+    const after =
+      definition.key === "first_frame"
+        ? spans.get("activity_start")?.[0] ?? appStartTimestamp
+        : appStartTimestamp;
+    const first = matching(definition).find((slice) => slice.start >= after);
+    if (first) spans.set(definition.key, [first.start, first.end!]);
+  }
+
+  const startupEnd =
+    fullyDrawnTimestamp ??
+    spans.get("first_frame")?.[1] ??
+    model.lastTimestamp ??
+    appStartTimestamp;
+  for (const definition of STARTUP_PHASE_SLICES) {
+    if (!definition.merge) continue;
+    const slices = matching(definition).filter(
+      (slice) => slice.start < startupEnd
+    );
+    if (slices.length === 0) continue;
+    spans.set(definition.key, [
+      slices[0].start,
+      Math.max(...slices.map((slice) => slice.end!)),
+    ]);
+  }
+
+  const bindApplication = spans.get("bind_application");
+  if (bindApplication) {
+    spans.set("process_start", [appStartTimestamp, bindApplication[0]]);
+  }
+  if (fullyDrawnTimestamp !== undefined) {
+    const from = spans.get("first_frame")?.[1] ?? appStartTimestamp;
+    if (fullyDrawnTimestamp > from) {
+      spans.set("fully_drawn", [from, fullyDrawnTimestamp]);
+    }
+  }
+  if (spans.size === 0) return undefined;
+
+  const totalSeconds = roundSeconds(
+    Math.max(...[...spans.values()].map(([, end]) => end)) - appStartTimestamp
+  );
+  const phases = [...spans.entries()]
+    .map(([key, [start, end]]): StartupPhase => {
+      const duration = roundSeconds(end - start);
+      return {
+        key,
+        start: roundSeconds(start - appStartTimestamp),
+        duration,
+        sharePercent:
+          totalSeconds > 0
+            ? parseFloat(((duration / totalSeconds) * 100).toFixed(1))
+            : 0,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  return { totalSeconds, phases };
+}
+
+function buildCounterTrackResult(
+  track: CounterTrack,
+  appStartTimestamp: number | undefined
+): CounterTrackResult {
+  const values = track.samples.map((sample) => sample.value);
+
+  return {
+    name: track.name,
+    pid: track.pid,
+    samples: track.samples.map((sample) => {
+      const timestamp = normalizeTimestamp(sample.timestamp);
+      return {
+        timestamp,
+        timeFromStart: appStartTimestamp
+          ? roundSeconds(timestamp - appStartTimestamp)
+          : undefined,
+        value: sample.value,
+      };
+    }),
+    min: values.reduce((min, value) => Math.min(min, value)),
+    max: values.reduce((max, value) => Math.max(max, value)),
+    last: values[values.length - 1],
+  };
+}
+
+// Summary name of a counter track. Tracks are per process, so a name that
+// several processes reported in the same iteration gets the pid appended to
+// keep their series apart.
+function counterTrackLabel(
+  track: CounterTrackResult,
+  tracks: CounterTrackResult[]
+): string {
+  const shared = tracks.some(
+    (other) => other !== track && other.name === track.name
+  );
+  return shared ? `${track.name} (pid ${track.pid})` : track.name;
+}
+
+function sliceToSpan(slice: TraceSlice): MarkerSpan {
+  return {
+    start: slice.start,
+    end: slice.end,
+    status: slice.end === undefined ? "unterminated" : "complete",
+  };
+}
+
+// Every sync or async slice for the marker, in trace order. Exact name
+// matches win; otherwise fall back to slices whose name contains the marker,
+// which catches markers emitted with a prefix or suffix.
+function findMarkerSpans(model: TraceModel, marker: string): MarkerSpan[] {
+  const findSpans = (matches: (name: string) => boolean): MarkerSpan[] =>
+    [...model.slices, ...model.asyncSlices]
+      .filter((slice) => matches(slice.name))
+      .map(sliceToSpan)
+      .sort((a, b) => a.start - b.start);
+
+  const exact = findSpans((name) => name === marker);
+  if (exact.length > 0) return exact;
+
+  return findSpans((name) => name.includes(marker));
+}
+
+function toMicroseconds(seconds: number): number {
+  return Math.round(seconds * 1e9) / 1000;
+}
+
+// The atrace text converted to Chrome Trace Event JSON: process and thread
+// names, sync slices (X, or B when still open at the end of the trace), async
+// slices (b/e) and counters (C). End events without a begin are dropped. On
+// top of that a "Performance markers" process highlights t=0 (a global
+// instant across all tracks) and every custom and paired marker found.
+function buildChromeTrace(
+  model: TraceModel,
+  config: Config,
+  metrics: IterationMetrics
+): { traceEvents: ChromeTraceEvent[]; displayTimeUnit: "ms" } {
+  const events: ChromeTraceEvent[] = [];
+
+  const pids = new Set([...model.threadPids.values(), ...model.appPids]);
+  for (const pid of pids) {
+    events.push({
+      name: "process_name",
+      ph: "M",
+      pid,
+      tid: pid,
+      args: {
+        name: model.appPids.has(pid)
+          ? config.appPackage
+          : model.threadNames.get(pid) ?? `pid ${pid}`,
+      },
+    });
+  }
+  for (const [tid, name] of model.threadNames) {
+    const pid = model.threadPids.get(tid);
+    if (pid === undefined) continue;
+    events.push({ name: "thread_name", ph: "M", pid, tid, args: { name } });
+  }
+
+  for (const slice of model.slices) {
+    const event: ChromeTraceEvent = {
+      name: slice.name,
+      cat: "atrace",
+      ph: slice.end === undefined ? "B" : "X",
+      pid: slice.pid,
+      tid: slice.tid,
+      ts: toMicroseconds(slice.start),
+    };
+    if (slice.end !== undefined) {
+      event.dur = toMicroseconds(slice.end - slice.start);
+    }
+    events.push(event);
+  }
+  for (const slice of model.asyncSlices) {
+    const asyncEvent = {
+      name: slice.name,
+      cat: "atrace_async",
+      pid: slice.pid,
+      tid: slice.tid,
+      id2: { local: `0x${((slice.cookie ?? 0) >>> 0).toString(16)}` },
+    };
+    events.push({ ...asyncEvent, ph: "b", ts: toMicroseconds(slice.start) });
+    if (slice.end !== undefined) {
+      events.push({ ...asyncEvent, ph: "e", ts: toMicroseconds(slice.end) });
+    }
+  }
+  for (const track of model.counters) {
+    for (const sample of track.samples) {
+      events.push({
+        name: track.name,
+        ph: "C",
+        pid: track.pid,
+        tid: track.pid,
+        ts: toMicroseconds(sample.timestamp),
+        args: { value: sample.value },
+      });
+    }
+  }
+
+  // A process id no real process uses, so the track can't merge with one.
+  const markerPid = Math.max(0, ...pids, ...model.threadNames.keys()) + 1;
+  events.push(
+    {
+      name: "process_name",
+      ph: "M",
+      pid: markerPid,
+      tid: markerPid,
+      args: { name: "Performance markers" },
+    },
+    {
+      name: "process_sort_index",
+      ph: "M",
+      pid: markerPid,
+      tid: markerPid,
+      args: { sort_index: -1 },
+    },
+    {
+      name: "thread_name",
+      ph: "M",
+      pid: markerPid,
+      tid: markerPid,
+      args: { name: "markers" },
+    }
+  );
+  if (metrics.appStartTimestamp !== undefined) {
+    events.push({
+      name: "t=0 (app start)",
+      cat: "marker",
+      ph: "i",
+      s: "g",
+      pid: markerPid,
+      tid: markerPid,
+      ts: toMicroseconds(metrics.appStartTimestamp),
+    });
+  }
+
+  // Markers go on async tracks, one per name, so overlapping occurrences
+  // don't have to nest.
+  let markerId = 0;
+  const pushMarkerSpan = (
+    name: string,
+    cat: string,
+    start: number,
+    end: number,
+    args: Record<string, unknown>
+  ) => {
+    const asyncEvent = {
+      name,
+      cat,
+      pid: markerPid,
+      tid: markerPid,
+      id2: { local: `0x${(markerId++).toString(16)}` },
+    };
+    events.push(
+      { ...asyncEvent, ph: "b", ts: toMicroseconds(start), args },
+      { ...asyncEvent, ph: "e", ts: toMicroseconds(end) }
+    );
+  };
+
+  for (const marker of metrics.customMarkers) {
+    for (const occurrence of marker.occurrences) {
+      const args = { timeFromStart: occurrence.timeFromStart };
+      if (occurrence.duration !== undefined) {
+        pushMarkerSpan(
+          marker.name,
+          "custom_marker",
+          occurrence.timestamp,
+          occurrence.timestamp + occurrence.duration,
+          args
+        );
+      } else {
+        events.push({
+          name: marker.name,
+          cat: "custom_marker",
+          ph: "i",
+          s: "t",
+          pid: markerPid,
+          tid: markerPid,
+          ts: toMicroseconds(occurrence.timestamp),
+          args,
+        });
+      }
+    }
+  }
+  for (const pair of metrics.pairedMarkers) {
+    for (const occurrence of pair.occurrences ?? []) {
+      pushMarkerSpan(
+        pair.name,
+        "paired_marker",
+        occurrence.start,
+        occurrence.end,
+        {
+          timeFromStart: occurrence.timeFromStart,
+          durationMs: parseFloat((occurrence.duration * 1000).toFixed(3)),
+        }
+      );
+    }
+  }
+
+  return { traceEvents: events, displayTimeUnit: "ms" };
+}
+
+async function processTraceData(
+  config: Config,
+  tracePath: string,
+  iteration: number,
+  deviceInfo: DeviceInfo,
+  deviceData: IterationDeviceData = {},
+  warmup = false
+): Promise<IterationMetrics | null> {
+  console.log(`Processing trace data from ${tracePath}...`);
+
+  try {
+    const model = await parseTrace(tracePath, config.appPackage);
+    console.log(
+      `Parsed ${model.eventCount} trace events (${model.marks.length} trace markers, ${model.slices.length} slices)`
+    );
+
+    const appStartTimestamp = findAppStartTimestamp(model, config.appPackage);
+    const sliceBalance = getSliceBalance(model);
+    if (sliceBalance.unterminatedSlices > 0 || sliceBalance.unmatchedEnds > 0) {
+      console.warn(
+        `Unbalanced slices in trace: ${sliceBalance.unterminatedSlices} unterminated, ${sliceBalance.unmatchedEnds} unmatched end(s)`
+      );
+    }
+
+    if (!appStartTimestamp) {
+      console.error(
+        "Could not find app start timestamp in trace. Metrics will be incomplete."
+      );
+    }
+
+    const normalizedAppStart = appStartTimestamp
+      ? normalizeTimestamp(appStartTimestamp)
+      : undefined;
+
+    const lifecycleKeywords: Record<LifecycleEvent, string> = {
+      activityCreate: "performCreate",
+      activityStart: "performStart",
+      activityResume: "performResume",
+      activityDrawn: "reportFullyDrawn",
+    };
+
+    const lifecycle = {} as Record<LifecycleEvent, MarkerResult>;
+    for (const event of LIFECYCLE_EVENTS) {
+      const match = model.slices.find(
+        (slice) =>
+          slice.name.includes(lifecycleKeywords[event]) &&
+          slice.name.includes(config.appPackage)
+      );
+      lifecycle[event] = buildMarkerResult(
+        event,
+        match ? [sliceToSpan(match)] : [],
+        normalizedAppStart
+      );
+    }
+
+    const customMarkers: MarkerResult[] = [];
+    for (const marker of config.customMarkers) {
+      const result = buildMarkerResult(
+        marker,
+        findMarkerSpans(model, marker),
+        normalizedAppStart
+      );
+      if (result.status === "found") {
+        console.log(
+          `Found marker: ${marker} at time ${result.occurrences[0].timestamp} (${result.occurrences.length} occurrence(s))`
+        );
+      }
+      customMarkers.push(result);
+    }
+
+    const pairedMarkers: PairedMarkerResult[] = [];
+    for (const pair of config.pairedMarkers) {
+      const start = buildMarkerResult(
+        pair.start,
+        findMarkerSpans(model, pair.start),
+        normalizedAppStart
+      );
+      const end = buildMarkerResult(
+        pair.end,
+        findMarkerSpans(model, pair.end),
+        normalizedAppStart
+      );
+
+      const { occurrences, unmatchedStarts, unmatchedEnds } =
+        pairMarkerOccurrences(pair, start, end);
+      const durations = occurrences
+        .map((occurrence) => occurrence.duration)
+        .sort((a, b) => a - b);
+
+      const result: PairedMarkerResult = {
+        name: pair.name,
+        start,
+        end,
+        aggregation: pair.aggregation ?? "first",
+        occurrences,
+        unmatchedStarts,
+        unmatchedEnds,
+        duration: selectPairedDuration(pair, occurrences),
+      };
+      if (durations.length > 0) {
+        result.occurrenceStats = {
+          count: durations.length,
+          p50: roundSeconds(percentile(durations, 50)),
+          p90: roundSeconds(percentile(durations, 90)),
+          max: durations[durations.length - 1],
+        };
+      }
+      if (result.duration !== undefined) {
+        console.log(
+          `Duration for ${pair.name}: ${result.duration.toFixed(3)}s (${
+            occurrences.length
+          } occurrence(s), ${result.aggregation})`
+        );
+      }
+      pairedMarkers.push(result);
+    }
+
+    const counters = model.counters
+      .filter((track) =>
+        config.counters.length > 0
+          ? config.counters.includes(track.name)
+          : model.appPids.has(track.pid)
+      )
+      .map((track) => buildCounterTrackResult(track, normalizedAppStart));
+
+    const traceJank = analyzeTraceFrames(
+      model,
+      deviceInfo.refreshPeriodMs ?? DEFAULT_REFRESH_PERIOD_MS,
+      normalizedAppStart,
+      pairedMarkers
+    );
+
+    const windows = buildAnalysisWindows(
+      appStartTimestamp,
+      (
+        lifecycle.activityDrawn.occurrences[0] ??
+        lifecycle.activityResume.occurrences[0]
+      )?.timestamp,
+      config.pairedMarkers,
+      pairedMarkers
+    );
+    const threadStates = analyzeThreadStates(model, windows);
+    const longTasks = detectLongTasks(
+      model,
+      normalizedAppStart,
+      windows,
+      config.longTaskThresholdsMs
+    );
+    const startupPhases = buildStartupWaterfall(
+      model,
+      appStartTimestamp,
+      lifecycle.activityDrawn.occurrences[0]?.timestamp
+    );
+
+    let scenario: ScenarioResult | undefined;
+    if (config.scenario) {
+      const steps = deviceData.scenarioSteps ?? [];
+      const expectedMarkers = config.scenario.expectedMarkers.map((marker) => ({
+        marker,
+        found: findMarkerSpans(model, marker).length > 0,
+      }));
+      scenario = {
+        name: config.scenario.name,
+        steps,
+        expectedMarkers,
+        passed:
+          steps.every((step) => step.status === "ok") &&
+          expectedMarkers.every((expected) => expected.found),
+      };
+      for (const expected of expectedMarkers) {
+        if (!expected.found) {
+          console.warn(
+            `Expected marker ${expected.marker} not found in the trace`
+          );
+        }
+      }
+    }
+
+    const metrics: IterationMetrics = {
+      schemaVersion: METRICS_SCHEMA_VERSION,
+      iteration,
+      ...(warmup ? { warmup } : {}),
+      date: new Date().toISOString(),
+      appPackage: config.appPackage,
+      appActivity: config.appActivity || `${config.appPackage}.MainActivity`,
+      mode: config.startMode,
+      startPreparation: deviceData.startPreparation,
+      device: deviceInfo,
+      tracePath,
+      appStartTimestamp: normalizedAppStart,
+      lifecycle,
+      launch: deviceData.launch,
+      customMarkers,
+      pairedMarkers,
+      counters,
+      frameStats: deviceData.frameStats,
+      memory: deviceData.memory,
+      pairedMarkerMemory: deviceData.pairedMarkerMemory,
+      traceJank,
+      threadStates,
+      longTasks,
+      startupPhases,
+      sliceBalance,
+      scenario,
+      traceStop: deviceData.traceStop,
+    };
+
+    if (config.chromeTrace) {
+      const chromeTracePath = `${tracePath.replace(/\.perfetto$/, "")}.json`;
+      await Deno.writeTextFile(
+        chromeTracePath,
+        JSON.stringify(buildChromeTrace(model, config, metrics))
+      );
+      metrics.chromeTracePath = chromeTracePath;
+      console.log(`Chrome trace saved to ${chromeTracePath}`);
+    }
+
+    await writeIterationMetrics(config, metrics);
+    return metrics;
+  } catch (error) {
+    console.error(
+      `Error processing trace data: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return null;
+  }
+}
+
+function formatRunMode(mode: RunMode): string {
+  return mode.charAt(0).toUpperCase() + mode.slice(1);
+}
+
+function formatStartPreparation(preparation: StartPreparation): string {
+  const steps = [
+    preparation.forceStopped && "force-stopped",
+    preparation.dataCleared && "data cleared",
+    preparation.cachesDropped && "page caches dropped",
+    preparation.sentToBackground && "sent to background",
+    preparation.cpuIdle &&
+      (preparation.cpuIdle.loadPerCore === undefined
+        ? "CPU load unknown"
+        : `CPU load ${preparation.cpuIdle.loadPerCore.toFixed(2)}/core${
+            preparation.cpuIdle.settled ? "" : " (did not settle)"
+          } after ${(preparation.cpuIdle.waitedMs / 1000).toFixed(1)}s`),
+  ].filter(Boolean);
+  return steps.length > 0 ? steps.join(", ") : "none";
+}
+
+function formatDeviceStabilization(stabilization: DeviceStabilization): string {
+  const applied = [
+    stabilization.animationsDisabled
+      ? "animations off"
+      : "animations NOT disabled",
+    stabilization.stayAwake ? "screen kept on" : "screen NOT kept on",
+    `CPU load <= ${stabilization.maxCpuLoadPerCore}/core before launch`,
+    stabilization.pinnedCpus.length > 0
+      ? `CPU ${stabilization.pinnedCpus
+          .map((cpu) => `${cpu.cpu}@${Math.round(cpu.maxFreqKHz / 1000)}MHz`)
+          .join(" ")} pinned (performance governor)`
+      : "CPU frequencies not pinned",
+  ];
+  return applied.join(", ");
+}
+
+function formatLongTaskThresholds(
+  thresholdsMs: Record<LongTaskThread, number>
+): string {
+  return (Object.keys(thresholdsMs) as LongTaskThread[])
+    .map(
+      (thread) =>
+        `${LONG_TASK_THREAD_LABELS[thread]} > ${thresholdsMs[thread]} ms`
+    )
+    .join(", ");
+}
+
+function formatThreadStates(
+  ms: Partial<Record<ThreadState, number>>,
+  windowMs?: number
+): string {
+  return (Object.keys(THREAD_STATE_LABELS) as ThreadState[])
+    .filter((state) => ms[state] !== undefined)
+    .map((state) => {
+      const value = ms[state]!;
+      const share =
+        windowMs && windowMs > 0
+          ? ` (${((value / windowMs) * 100).toFixed(0)}%)`
+          : "";
+      return `${THREAD_STATE_LABELS[state]} ${value.toFixed(2)} ms${share}`;
+    })
+    .join(", ");
+}
+
+const STARTUP_WATERFALL_WIDTH = 40;
+
+// One row per phase with a bar placed on the t=0 .. total axis.
+function renderStartupWaterfall(
+  phases: Array<{ key: StartupPhaseKey; start: number; duration: number }>,
+  totalSeconds: number
+): string {
+  const column = (position: number) =>
+    totalSeconds > 0
+      ? Math.round((position / totalSeconds) * STARTUP_WATERFALL_WIDTH)
+      : 0;
+
+  let content = `${"Phase".padEnd(24)}${"Start".padStart(
+    9
+  )}${"Duration".padStart(10)}${"Share".padStart(8)}\n`;
+  for (const phase of phases) {
+    const from = Math.min(column(phase.start), STARTUP_WATERFALL_WIDTH - 1);
+    const to = Math.max(from + 1, column(phase.start + phase.duration));
+    const share = totalSeconds > 0 ? (phase.duration / totalSeconds) * 100 : 0;
+    content += `${STARTUP_PHASE_LABELS[phase.key].padEnd(
+      24
+    )}${`${phase.start.toFixed(3)}s`.padStart(9)}${`${phase.duration.toFixed(
+      3
+    )}s`.padStart(10)}${`${share.toFixed(1)}%`.padStart(8)}  |${" ".repeat(
+      from
+    )}${"#".repeat(to - from)}\n`;
+  }
+  content += `Total: ${totalSeconds.toFixed(3)} seconds from t=0\n`;
+  return content;
+}
+
+function renderMarkerOccurrence(label: string, result: MarkerResult): string {
+  const first = result.occurrences[0];
+  if (!first) {
+    return `${label}: Not found in trace\n`;
+  }
+
+  let content = `${label}:\n`;
+  content += `  - Absolute time: ${first.timestamp.toFixed(3)} seconds\n`;
+  if (first.timeFromStart !== undefined) {
+    content += `  - Time from app start (t=0): ${first.timeFromStart.toFixed(
+      3
+    )} seconds\n`;
+  }
+  if (first.duration !== undefined) {
+    content += `  - Slice duration: ${first.duration.toFixed(3)} seconds\n`;
+  } else if (first.status === "unterminated") {
+    content +=
+      "  - Slice duration: unterminated (still open when the trace ended)\n";
+  }
+  return content;
+}
+
+function renderIterationMetricsText(metrics: IterationMetrics): string {
+  let content = "=== Performance Metrics ===\n";
+  if (metrics.warmup) {
+    content += `Warm-up iteration ${metrics.iteration} (excluded from the summary)\n`;
+  }
+  content += `App Package: ${metrics.appPackage}\n`;
+  content += `Run Mode: ${formatRunMode(metrics.mode)}\n`;
+  if (metrics.startPreparation) {
+    content += `Start Preparation: ${formatStartPreparation(
+      metrics.startPreparation
+    )}\n`;
+  }
+  content += `Date: ${metrics.date}\n\n`;
+
+  if (metrics.appStartTimestamp) {
+    content += `App Start Timestamp (t=0): ${metrics.appStartTimestamp.toFixed(
+      3
+    )} seconds (absolute time)\n\n`;
+  }
+
+  content += "== App Lifecycle Events ==\n";
+
+  for (const event of LIFECYCLE_EVENTS) {
+    const first = metrics.lifecycle[event].occurrences[0];
+    if (!first) continue;
+
+    content += `${LIFECYCLE_LABELS[event]}: ${first.timestamp.toFixed(
+      3
+    )} seconds (absolute time)\n`;
+    if (first.timeFromStart) {
+      content += `  - Time from app start: ${first.timeFromStart.toFixed(
+        3
+      )} seconds\n`;
+    }
+  }
+
+  if (metrics.startupPhases) {
+    content += "\n== Startup Phases ==\n";
+    content += renderStartupWaterfall(
+      metrics.startupPhases.phases,
+      metrics.startupPhases.totalSeconds
+    );
+  }
+
+  if (metrics.launch) {
+    const launch = metrics.launch;
+    content += "\n== System-Reported Launch (am start -W) ==\n";
+    content += `Status: ${launch.status ?? "Unknown"}\n`;
+    content += `Launch State: ${launch.launchState ?? "Unknown"}\n`;
+    if (launch.totalTimeMs !== undefined) {
+      content += `Total Time: ${launch.totalTimeMs} ms\n`;
+    }
+    if (launch.waitTimeMs !== undefined) {
+      content += `Wait Time: ${launch.waitTimeMs} ms\n`;
+    }
+    if (launch.thisTimeMs !== undefined) {
+      content += `This Time: ${launch.thisTimeMs} ms\n`;
+    }
+    if (launch.launchStateMismatch) {
+      content += `WARNING: Launch state ${
+        launch.launchState
+      } does not match the ${formatRunMode(metrics.mode)} run mode\n`;
+    }
+  }
+
+  if (metrics.traceStop && metrics.traceStop.reason !== "duration") {
+    const { traceStop } = metrics;
+    content += `\nTrace recorded for ${(traceStop.recordedMs / 1000).toFixed(
+      1
+    )} seconds after launch: ${
+      traceStop.reason === "done_markers"
+        ? "stopped early, all done markers seen"
+        : `timed out waiting for ${traceStop.missingMarkers?.join(", ")}`
+    }\n`;
+  }
+
+  if (metrics.scenario) {
+    const scenario = metrics.scenario;
+    content += `\n== Scenario: ${scenario.name} (${
+      scenario.passed ? "passed" : "FAILED"
+    }) ==\n`;
+    for (const [index, step] of scenario.steps.entries()) {
+      content += `${index + 1}. ${step.description}: ${step.status}`;
+      if (step.elapsedMs !== undefined) content += ` (${step.elapsedMs} ms)`;
+      content += "\n";
+    }
+    for (const expected of scenario.expectedMarkers) {
+      content += `Expected marker ${expected.marker}: ${
+        expected.found ? "found" : "NOT FOUND"
+      }\n`;
+    }
+  }
+
+  content += "\n== Custom Markers ==\n";
+
+  for (const marker of metrics.customMarkers) {
+    content += renderMarkerOccurrence(marker.name, marker);
+  }
+
+  if (metrics.pairedMarkers.length > 0) {
+    content += "\n== Paired Markers (Start/End) ==\n";
+    for (const pair of metrics.pairedMarkers) {
+      content += `=== ${pair.name} ===\n`;
+      content += renderMarkerOccurrence(pair.start.name, pair.start);
+      if (pair.end.name !== pair.start.name) {
+        content += renderMarkerOccurrence(pair.end.name, pair.end);
+      }
+
+      if (pair.duration !== undefined) {
+        content += `Duration of ${pair.name}: ${pair.duration.toFixed(
+          3
+        )} seconds\n`;
+      } else {
+        content += `Duration of ${pair.name}: Could not be calculated\n`;
+      }
+
+      if (pair.aggregation && pair.aggregation !== "first") {
+        content += `Aggregation: ${pair.aggregation}\n`;
+      }
+
+      if (pair.occurrenceStats) {
+        const stats = pair.occurrenceStats;
+        content += `Occurrences: ${stats.count} (p50 ${stats.p50.toFixed(
+          3
+        )}s, p90 ${stats.p90.toFixed(3)}s, max ${stats.max.toFixed(3)}s)\n`;
+        pair.occurrences?.forEach((occurrence, index) => {
+          const at =
+            occurrence.timeFromStart !== undefined
+              ? `${occurrence.timeFromStart.toFixed(3)}s from app start`
+              : `${occurrence.start.toFixed(3)}s absolute`;
+          content += `  #${
+            index + 1
+          }: at ${at}, duration ${occurrence.duration.toFixed(3)} seconds\n`;
+        });
+      }
+
+      if (pair.unmatchedStarts || pair.unmatchedEnds) {
+        content += `WARNING: ${
+          pair.unmatchedStarts ?? 0
+        } start(s) without an end, ${
+          pair.unmatchedEnds ?? 0
+        } end(s) without a start\n`;
+      }
+
+      content += "\n";
+    }
+  }
+
+  if (metrics.frameStats) {
+    const frames = metrics.frameStats;
+    content += "\n== Frame Statistics (gfxinfo) ==\n";
+    content += `Total frames rendered: ${frames.totalFrames}\n`;
+    content += `Janky frames: ${
+      frames.jankyFrames
+    } (${frames.jankyPercent.toFixed(2)}%)\n`;
+    content += `Missed vsync: ${frames.missedVsync}\n`;
+    content += `Slow UI thread: ${frames.slowUiThread}\n`;
+    content += `Slow bitmap uploads: ${frames.slowBitmapUploads}\n`;
+    if (frames.slowIssueDrawCommands !== undefined) {
+      content += `Slow issue draw commands: ${frames.slowIssueDrawCommands}\n`;
+    }
+    if (frames.frameTimeMs) {
+      content += `Frame time (last ${frames.profiledFrames} frames):\n`;
+      content += `  - Avg: ${frames.frameTimeMs.avg.toFixed(2)} ms\n`;
+      content += `  - p50: ${frames.frameTimeMs.p50.toFixed(2)} ms\n`;
+      content += `  - p90: ${frames.frameTimeMs.p90.toFixed(2)} ms\n`;
+      content += `  - p95: ${frames.frameTimeMs.p95.toFixed(2)} ms\n`;
+      content += `  - p99: ${frames.frameTimeMs.p99.toFixed(2)} ms\n`;
+    }
+  }
+
+  if (metrics.memory || metrics.pairedMarkerMemory) {
+    content += "\n== Memory (dumpsys meminfo) ==\n";
+    const snapshots: Array<[string, MemorySnapshot | undefined]> = [
+      ["At end of iteration", metrics.memory],
+      ...Object.entries(metrics.pairedMarkerMemory ?? {}).map(
+        ([name, memory]): [string, MemorySnapshot] => [
+          `At end of ${name}`,
+          memory,
+        ]
+      ),
+    ];
+    for (const [label, memory] of snapshots) {
+      if (!memory) continue;
+
+      content += `${label}:\n`;
+      for (const [field, , fieldLabel] of MEMORY_METRICS) {
+        const value = memory[field];
+        if (value !== undefined) {
+          content += `  - ${fieldLabel}: ${formatMetricValue(value, "kb")}\n`;
+        }
+      }
+      const objects = Object.entries(memory.objects);
+      if (objects.length > 0) {
+        content += `  - Objects: ${objects
+          .map(([name, count]) => `${name} ${count}`)
+          .join(", ")}\n`;
+      }
+    }
+  }
+
+  if (metrics.traceJank) {
+    const jank = metrics.traceJank;
+    content += "\n== Frame Analysis (trace) ==\n";
+    content += `Refresh interval: ${jank.refreshPeriodMs.toFixed(2)} ms\n`;
+    content += `Frames: ${jank.totalFrames}\n`;
+    content += `Janky frames: ${jank.jankyFrames} (${jank.jankyPercent.toFixed(
+      2
+    )}%)\n`;
+    for (const [cause, label] of Object.entries(JANK_CAUSE_LABELS)) {
+      content += `  - ${label}: ${jank.causes[cause as JankCause]}\n`;
+    }
+    for (const pair of jank.pairedMarkers) {
+      content += `During ${pair.name}: ${pair.jankyFrames} of ${pair.frames} frames janky\n`;
+    }
+    if (jank.worstFrames.length > 0) {
+      content += "Worst frames:\n";
+      for (const frame of jank.worstFrames) {
+        const at =
+          frame.timeFromStart !== undefined
+            ? `${frame.timeFromStart.toFixed(3)}s from app start`
+            : `${frame.timestamp.toFixed(3)}s absolute`;
+        content += `  - ${at}: ${frame.durationMs.toFixed(2)} ms, cause: ${
+          JANK_CAUSE_LABELS[frame.cause!]
+        } (UI thread ${frame.uiThreadMs.toFixed(
+          2
+        )} ms incl. traversal ${frame.traversalMs.toFixed(
+          2
+        )} ms, RenderThread ${frame.renderThreadMs.toFixed(
+          2
+        )} ms, GPU wait ${frame.gpuWaitMs.toFixed(2)} ms)${
+          frame.pairedMarkers.length > 0
+            ? ` during ${frame.pairedMarkers.join(", ")}`
+            : ""
+        }\n`;
+      }
+    }
+  }
+
+  if (metrics.threadStates && metrics.threadStates.length > 0) {
+    content += "\n== Thread States ==\n";
+    for (const window of metrics.threadStates) {
+      content += `${
+        window.name === "startup" ? "Startup" : window.name
+      }, ${window.durationMs.toFixed(2)} ms:\n`;
+      if (window.threads.length === 0) {
+        content += "  - No scheduling data for the app's threads\n";
+      }
+      for (const breakdown of window.threads) {
+        content += `  - ${
+          KEY_THREAD_LABELS[breakdown.thread]
+        }: ${formatThreadStates(breakdown.ms, window.durationMs)}\n`;
+      }
+    }
+  }
+
+  if (metrics.longTasks) {
+    const { thresholdsMs, tasks } = metrics.longTasks;
+    content += `\n== Long Tasks (${formatLongTaskThresholds(
+      thresholdsMs
+    )}) ==\n`;
+    for (const window of metrics.longTasks.windows) {
+      content += `${window.name}: ${
+        window.threads
+          .map(
+            (thread) =>
+              `${LONG_TASK_THREAD_LABELS[thread.thread]} ${
+                thread.count
+              } (${thread.totalMs.toFixed(2)} ms)`
+          )
+          .join(", ") || "no UI or JS thread found"
+      }\n`;
+    }
+    for (const task of tasks) {
+      const at =
+        task.timeFromStart !== undefined
+          ? `${task.timeFromStart.toFixed(3)}s from app start`
+          : `${task.timestamp.toFixed(3)}s absolute`;
+      content += `  - ${at}: ${task.durationMs.toFixed(2)} ms on ${
+        LONG_TASK_THREAD_LABELS[task.thread]
+      }, ${
+        task.name
+          ? task.source === "slice"
+            ? task.name
+            : `busy period around ${task.name}`
+          : "busy period without slices"
+      } (during ${task.windows.join(", ")})`;
+      if (Object.keys(task.states).length > 0) {
+        content += `\n      ${formatThreadStates(
+          task.states,
+          task.durationMs
+        )}`;
+      }
+      content += "\n";
+    }
+  }
+
+  if (metrics.counters && metrics.counters.length > 0) {
+    content += "\n== Counter Tracks ==\n";
+    for (const counter of metrics.counters) {
+      content += `${counter.name} (pid ${counter.pid}):\n`;
+      content += `  - Samples: ${counter.samples.length}\n`;
+      content += `  - Min: ${formatMetricValue(counter.min, "value")}\n`;
+      content += `  - Max: ${formatMetricValue(counter.max, "value")}\n`;
+      content += `  - Last: ${formatMetricValue(counter.last, "value")}\n`;
+    }
+  }
+
+  if (metrics.sliceBalance) {
+    const balance = metrics.sliceBalance;
+    content += `\n== Slice Balance (${
+      balance.scope === "app" ? "app process" : "whole trace"
+    }) ==\n`;
+    content += `Unterminated slices: ${balance.unterminatedSlices}\n`;
+    content += `Unmatched slice ends: ${balance.unmatchedEnds}\n`;
+    if (balance.unterminatedSlices > 0 || balance.unmatchedEnds > 0) {
+      content +=
+        "WARNING: Some slices are unbalanced or were truncated by the trace window; their durations are missing or unreliable.\n";
+    }
+  }
+
+  return content;
+}
+
+async function writeIterationMetrics(
+  config: Config,
+  metrics: IterationMetrics
+): Promise<void> {
+  const label = iterationLabel(metrics.iteration, metrics.warmup);
+  const jsonPath = `${config.outputDir}/metrics_${label}.json`;
+  const textPath = `${config.outputDir}/metrics_${label}.txt`;
+
+  await Deno.writeTextFile(jsonPath, JSON.stringify(metrics, null, 2));
+  await Deno.writeTextFile(textPath, renderIterationMetricsText(metrics));
+  console.log(`Metrics saved to ${jsonPath} and ${textPath}`);
+}
+
+// File name suffix for an iteration's artifacts: "3" or "warmup_1".
+function iterationLabel(iteration: number, warmup = false): string {
+  return warmup ? `warmup_${iteration}` : String(iteration);
+}
+
+async function runIteration(
+  config: Config,
+  iteration: number,
+  deviceInfo: DeviceInfo,
+  warmup: boolean
+): Promise<IterationMetrics | null> {
+  const label = iterationLabel(iteration, warmup);
+  console.log(
+    warmup
+      ? `\n=== Running warm-up iteration ${iteration} ===`
+      : `\n=== Running test iteration ${iteration} ===`
+  );
+
+  // The output directory is reused between runs: a file left by an earlier
+  // run must not stand in for one this iteration fails to write.
+  for (const file of [
+    `metrics_${label}.json`,
+    `metrics_${label}.txt`,
+    `screenshot_${label}.png`,
+  ]) {
+    try {
+      await Deno.remove(`${config.outputDir}/${file}`);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  const deviceData: IterationDeviceData = {};
+  const startPreparation = await prepareStart(config);
+  if (!startPreparation) {
+    console.error(
+      `Failed to prepare ${config.startMode} start. Skipping iteration.`
+    );
+    return null;
+  }
+  deviceData.startPreparation = startPreparation;
+
+  if (config.stabilize) {
+    await wakeAndUnlock(config);
+    startPreparation.cpuIdle = await waitForCpuIdle(config);
+  }
+
+  const traceStarted = await startTrace(config);
+  if (!traceStarted) {
+    console.error("Failed to start tracing. Skipping iteration.");
+    return null;
+  }
+
+  if (!(await resetFrameStats(config))) {
+    console.warn("Failed to reset frame statistics");
+  }
+
+  console.log("Launching app...");
+  const launchOutput = await launchApp(config);
+  console.log(launchOutput);
+
+  deviceData.launch = parseLaunchOutput(launchOutput, config.startMode);
+  if (deviceData.launch.launchStateMismatch) {
+    console.warn(
+      `Warning: Android reported a ${
+        deviceData.launch.launchState
+      } launch during a ${config.startMode} run (expected ${
+        EXPECTED_LAUNCH_STATES[config.startMode]
+      })`
+    );
+  }
+
+  const recordingStarted = Date.now();
+  const memoryCollection = new AbortController();
+  // Runs alongside the scenario and the trace completion poll, so a failure
+  // must not surface as an unhandled rejection while those are awaited.
+  const pairedMarkerMemory =
+    config.memoryAtMarkers && config.pairedMarkers.length > 0
+      ? collectMemoryAtMarkers(config, label, memoryCollection.signal).catch(
+          (error) => {
+            console.error(
+              `Failed to collect memory at paired markers: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+            return undefined;
+          }
+        )
+      : undefined;
+
+  if (config.scenario) {
+    deviceData.scenarioSteps = await runScenario(
+      config,
+      config.scenario,
+      label
+    );
+  }
+
+  const traceStop = await waitForTraceCompletion(
+    config,
+    Math.max(0, config.traceDuration * 1000 - (Date.now() - recordingStarted))
+  );
+  deviceData.traceStop = {
+    ...traceStop,
+    recordedMs: Date.now() - recordingStarted,
+  };
+
+  memoryCollection.abort();
+  deviceData.pairedMarkerMemory = await pairedMarkerMemory;
+
+  deviceData.frameStats = await collectFrameStats(
+    config,
+    `${config.outputDir}/gfxinfo_${label}.txt`
+  );
+  deviceData.memory = await collectMemoryInfo(
+    config,
+    `${config.outputDir}/meminfo_${label}.txt`
+  );
+
+  const screenshotPath = `${config.outputDir}/screenshot_${label}.png`;
+  await takeScreenshot(config, screenshotPath);
+
+  const traceStopped = await stopTrace(config);
+  if (!traceStopped) {
+    console.error("Failed to stop tracing. Skipping iteration.");
+    return null;
+  }
 
-    let appStartTimestamp = 0;
-    const appStartPatterns = [
-      // First try to find Startup trace
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:\\s+B\\|\\d+\\|Startup`
-      ),
-      // Then try APPLICATION_START
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*APPLICATION_START`
-      ),
-      // Fallback to other patterns
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*ActivityManager.*START.*?${config.appPackage}`
-      ),
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*ActivityTaskManager.*START.*?${config.appPackage}`
-      ),
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*Displayed.*?${config.appPackage}`
-      ),
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*am_create_activity.*?${config.appPackage}`
-      ),
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*am_on_resume_called.*?${config.appPackage}`
-      ),
-      new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*am_proc_start.*?${config.appPackage}`
+  const localTracePath = `${config.outputDir}/trace_iteration_${label}.perfetto`;
+  const tracePulled = await pullTraceFile(config, localTracePath);
+
+  if (!tracePulled) {
+    console.error("Failed to pull trace file. Skipping iteration.");
+    return null;
+  }
+
+  return await processTraceData(
+    config,
+    localTracePath,
+    iteration,
+    deviceInfo,
+    deviceData,
+    warmup
+  );
+}
+
+function checkAdaptiveTarget(
+  config: Config,
+  adaptive: AdaptiveConfig,
+  runs: IterationMetrics[]
+): AdaptiveResult {
+  const result: AdaptiveResult = {
+    metric: adaptive.metric,
+    targetWidth: adaptive.targetWidth,
+    maxIterations: adaptive.maxIterations,
+    converged: false,
+  };
+
+  const samples = collectMetricSamples(runs);
+  const key = resolveMetricKey(samples, adaptive.metric);
+  if (!key) {
+    console.log(`Adaptive: ${adaptive.metric} not measured yet`);
+    return result;
+  }
+  result.resolvedMetric = key;
+
+  const series = samples[key];
+  const values = rejectOutliers(series.samples, config.outlierMethod).kept.map(
+    (sample) => sample.value
+  );
+  if (values.length < 2) return result;
+
+  const interval = bootstrapMedianInterval(
+    values,
+    BOOTSTRAP_RESAMPLES,
+    COMPARISON_CONFIDENCE_LEVEL
+  );
+  result.confidenceInterval = interval;
+
+  const width = interval.high - interval.low;
+  const relative = adaptive.targetWidth.trim().endsWith("%");
+  const target = relative
+    ? (parseFloat(adaptive.targetWidth) / 100) * Math.abs(median(values))
+    : parseBudgetLimit(adaptive.targetWidth, series.unit);
+  if (target === undefined || Number.isNaN(target)) {
+    console.warn(
+      `Adaptive: cannot compare "${adaptive.targetWidth}" with ${key} (${series.unit})`
+    );
+    return result;
+  }
+
+  result.converged = width < target;
+  console.log(
+    `Adaptive: ${key} CI width ${formatMetricValue(width, series.unit)} after ${
+      values.length
+    } sample(s), target ${formatMetricValue(target, series.unit)}${
+      result.converged ? " reached" : ""
+    }`
+  );
+  return result;
+}
+
+async function runPerformanceTests(config: Config): Promise<number> {
+  console.log("Starting performance tests...");
+
+  if (!(await checkDeviceConnected(config))) {
+    return EXIT_FAILURE;
+  }
+
+  const deviceInfo = await getDeviceInfo(config);
+  if (config.stabilize) {
+    deviceInfo.stabilization = await stabilizeDevice(config);
+  }
+
+  const maxIterations = config.adaptive?.maxIterations ?? config.iterations;
+  const runs: IterationMetrics[] = [];
+  let attempted = 0;
+  let adaptive: AdaptiveResult | undefined;
+  try {
+    for (let i = 1; i <= config.warmupIterations; i++) {
+      await runIteration(config, i, deviceInfo, true);
+    }
+
+    while (attempted < maxIterations) {
+      attempted++;
+      const metrics = await runIteration(config, attempted, deviceInfo, false);
+      if (metrics) runs.push(metrics);
+
+      if (config.adaptive && attempted >= config.iterations) {
+        adaptive = checkAdaptiveTarget(config, config.adaptive, runs);
+        if (adaptive.converged) break;
+      }
+    }
+  } finally {
+    if (deviceInfo.stabilization) {
+      await restoreDevice(config, deviceInfo.stabilization);
+    }
+  }
+
+  const summary = await generateSummaryReport(
+    { ...config, iterations: attempted },
+    deviceInfo,
+    runs,
+    adaptive
+  );
+
+  console.log("\n===== Performance measurement completed =====");
+  console.log(`Results saved to ${config.outputDir}`);
+
+  if (summary.successfulIterations.length === 0) {
+    console.error("All iterations failed.");
+    return EXIT_FAILURE;
+  }
+
+  const violations = (summary.budgets ?? []).filter(
+    (budget) => budget.status !== "pass"
+  );
+  if (violations.length > 0) {
+    console.error(
+      `${violations.length} of ${summary.budgets?.length} performance budget(s) not met:`
+    );
+    for (const budget of violations) {
+      console.error(`  ${renderBudgetResult(budget)}`);
+    }
+    return EXIT_BUDGET_VIOLATION;
+  }
+
+  return EXIT_SUCCESS;
+}
+
+function addMetricSample(
+  samples: Record<string, MetricSeries>,
+  key: string,
+  iteration: number,
+  value: number | undefined,
+  unit: MetricUnit = "seconds"
+) {
+  if (value === undefined) return;
+  if (!samples[key]) samples[key] = { unit, samples: [] };
+  samples[key].samples.push({ iteration, value });
+}
+
+function memoryObjectKey(label: string): string {
+  return label.toLowerCase().replace(/\s+/g, "_");
+}
+
+function collectMetricSamples(
+  runs: IterationMetrics[]
+): Record<string, MetricSeries> {
+  const samples: Record<string, MetricSeries> = {};
+
+  for (const run of runs) {
+    for (const event of LIFECYCLE_EVENTS) {
+      addMetricSample(
+        samples,
+        LIFECYCLE_SUMMARY_KEYS[event],
+        run.iteration,
+        run.lifecycle[event].occurrences[0]?.timeFromStart
+      );
+    }
+
+    if (run.startupPhases) {
+      addMetricSample(
+        samples,
+        "startup_phases_total",
+        run.iteration,
+        run.startupPhases.totalSeconds
+      );
+      for (const phase of run.startupPhases.phases) {
+        addMetricSample(
+          samples,
+          `startup_phase_${phase.key}`,
+          run.iteration,
+          phase.duration
+        );
+        addMetricSample(
+          samples,
+          `startup_phase_${phase.key}_start`,
+          run.iteration,
+          phase.start
+        );
+      }
+    }
+
+    if (run.launch) {
+      addMetricSample(
+        samples,
+        "launch_total_time",
+        run.iteration,
+        run.launch.totalTimeMs,
+        "ms"
+      );
+      addMetricSample(
+        samples,
+        "launch_wait_time",
+        run.iteration,
+        run.launch.waitTimeMs,
+        "ms"
+      );
+      addMetricSample(
+        samples,
+        "launch_this_time",
+        run.iteration,
+        run.launch.thisTimeMs,
+        "ms"
+      );
+    }
+
+    for (const marker of run.customMarkers) {
+      const first = marker.occurrences[0];
+      addMetricSample(
+        samples,
+        `${marker.name}_absolute`,
+        run.iteration,
+        first?.timestamp
+      );
+      addMetricSample(
+        samples,
+        `${marker.name}_relative`,
+        run.iteration,
+        first?.timeFromStart
+      );
+      addMetricSample(
+        samples,
+        `${marker.name}_slice_duration`,
+        run.iteration,
+        first?.duration
+      );
+    }
+
+    for (const pair of run.pairedMarkers) {
+      const markers =
+        pair.start.name === pair.end.name
+          ? [pair.start]
+          : [pair.start, pair.end];
+      for (const marker of markers) {
+        const first = marker.occurrences[0];
+        addMetricSample(
+          samples,
+          `${marker.name}_absolute`,
+          run.iteration,
+          first?.timestamp
+        );
+        addMetricSample(
+          samples,
+          `${marker.name}_relative`,
+          run.iteration,
+          first?.timeFromStart
+        );
+      }
+      if (pair.aggregation === "all") {
+        for (const occurrence of pair.occurrences ?? []) {
+          addMetricSample(
+            samples,
+            `${pair.name}_duration`,
+            run.iteration,
+            occurrence.duration
+          );
+        }
+      } else {
+        addMetricSample(
+          samples,
+          `${pair.name}_duration`,
+          run.iteration,
+          pair.duration
+        );
+      }
+      addMetricSample(
+        samples,
+        `${pair.name}_occurrences`,
+        run.iteration,
+        pair.occurrences?.length,
+        "value"
+      );
+    }
+
+    if (run.frameStats) {
+      const frames = run.frameStats;
+      addMetricSample(
+        samples,
+        "frames_total",
+        run.iteration,
+        frames.totalFrames,
+        "value"
+      );
+      addMetricSample(
+        samples,
+        "frames_janky_percent",
+        run.iteration,
+        frames.jankyPercent,
+        "percent"
+      );
+      addMetricSample(
+        samples,
+        "frames_missed_vsync",
+        run.iteration,
+        frames.missedVsync,
+        "value"
+      );
+      addMetricSample(
+        samples,
+        "frames_slow_ui_thread",
+        run.iteration,
+        frames.slowUiThread,
+        "value"
+      );
+      addMetricSample(
+        samples,
+        "frames_slow_bitmap_uploads",
+        run.iteration,
+        frames.slowBitmapUploads,
+        "value"
+      );
+      const frameTimeMs = frames.frameTimeMs;
+      if (frameTimeMs) {
+        for (const p of ["p50", "p90", "p95", "p99"] as const) {
+          addMetricSample(
+            samples,
+            `frame_time_${p}`,
+            run.iteration,
+            frameTimeMs[p],
+            "ms"
+          );
+        }
+      }
+    }
+
+    const memorySnapshots: Array<[string, MemorySnapshot | undefined]> = [
+      ["memory", run.memory],
+      ...Object.entries(run.pairedMarkerMemory ?? {}).map(
+        ([name, memory]): [string, MemorySnapshot] => [`${name}_memory`, memory]
       ),
-      /([0-9.]+).*ActivityManager.*START.*?${config.appPackage}/,
-      /([0-9.]+).*ActivityTaskManager.*START.*?${config.appPackage}/,
-      /([0-9.]+).*ActivityManager.*Displayed.*?${config.appPackage}/,
-      /([0-9.]+).*am_create_activity.*?${config.appPackage}/,
-      /([0-9.]+).*am_on_resume_called.*?${config.appPackage}/,
-      /([0-9.]+).*am_proc_start.*?${config.appPackage}/,
-      /([0-9.]+).*am_create_task.*?${config.appPackage}/,
     ];
+    for (const [prefix, memory] of memorySnapshots) {
+      if (!memory) continue;
+
+      for (const [field, suffix] of MEMORY_METRICS) {
+        addMetricSample(
+          samples,
+          `${prefix}_${suffix}`,
+          run.iteration,
+          memory[field],
+          "kb"
+        );
+      }
+      for (const [name, count] of Object.entries(memory.objects)) {
+        addMetricSample(
+          samples,
+          `${prefix}_objects_${memoryObjectKey(name)}`,
+          run.iteration,
+          count,
+          "value"
+        );
+      }
+    }
 
-    for (const pattern of appStartPatterns) {
-      const match = traceContent.match(pattern);
-      if (match) {
-        appStartTimestamp = parseFloat(match[1]);
-        console.log(
-          `Found app start timestamp: ${appStartTimestamp} using pattern: ${pattern}`
+    for (const window of run.longTasks?.windows ?? []) {
+      for (const thread of window.threads) {
+        addMetricSample(
+          samples,
+          `${window.name}_long_tasks_${thread.thread}`,
+          run.iteration,
+          thread.count,
+          "value"
+        );
+        addMetricSample(
+          samples,
+          `${window.name}_long_tasks_${thread.thread}_ms`,
+          run.iteration,
+          thread.totalMs,
+          "ms"
         );
-        break;
       }
     }
 
-    if (!appStartTimestamp) {
-      const appFirstMentionPattern = new RegExp(
-        `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+.*${config.appPackage}`
+    for (const window of run.threadStates ?? []) {
+      for (const breakdown of window.threads) {
+        for (const [state, ms] of Object.entries(breakdown.ms)) {
+          addMetricSample(
+            samples,
+            `${window.name}_thread_${breakdown.thread}_${state}`,
+            run.iteration,
+            ms,
+            "ms"
+          );
+        }
+      }
+    }
+
+    if (run.traceJank) {
+      const jank = run.traceJank;
+      addMetricSample(
+        samples,
+        "trace_frames_total",
+        run.iteration,
+        jank.totalFrames,
+        "value"
       );
-      const firstMentionMatch = traceContent.match(appFirstMentionPattern);
-      if (firstMentionMatch) {
-        appStartTimestamp = parseFloat(firstMentionMatch[1]);
-        console.log(
-          `Using first mention of app package as start time: ${appStartTimestamp}`
+      addMetricSample(
+        samples,
+        "trace_frames_janky_percent",
+        run.iteration,
+        jank.jankyPercent,
+        "percent"
+      );
+      for (const cause of Object.keys(JANK_CAUSE_LABELS) as JankCause[]) {
+        addMetricSample(
+          samples,
+          `trace_jank_${cause}`,
+          run.iteration,
+          jank.causes[cause],
+          "value"
+        );
+      }
+      for (const pair of jank.pairedMarkers) {
+        addMetricSample(
+          samples,
+          `${pair.name}_janky_frames`,
+          run.iteration,
+          pair.jankyFrames,
+          "value"
         );
       }
-    }
+    }
+
+    const counters = run.counters ?? [];
+    for (const counter of counters) {
+      const label = counterTrackLabel(counter, counters);
+      addMetricSample(
+        samples,
+        `${label}_counter_min`,
+        run.iteration,
+        counter.min,
+        "value"
+      );
+      addMetricSample(
+        samples,
+        `${label}_counter_max`,
+        run.iteration,
+        counter.max,
+        "value"
+      );
+      addMetricSample(
+        samples,
+        `${label}_counter_last`,
+        run.iteration,
+        counter.last,
+        "value"
+      );
+    }
+  }
+
+  return samples;
+}
+
+function calculateStats(values: number[]): MetricStats {
+  if (!values || values.length === 0) {
+    return {
+      count: 0,
+      min: 0,
+      max: 0,
+      avg: 0,
+      median: 0,
+      stdDev: 0,
+      p25: 0,
+      p75: 0,
+      p90: 0,
+      p95: 0,
+      p99: 0,
+      iqr: 0,
+    };
+  }
+
+  const sortedValues = [...values].sort((a, b) => a - b);
+  const min = sortedValues[0];
+  const max = sortedValues[sortedValues.length - 1];
+  const avg =
+    sortedValues.reduce((sum, val) => sum + val, 0) / sortedValues.length;
+
+  let median: number;
+  const mid = Math.floor(sortedValues.length / 2);
+  if (sortedValues.length % 2 === 0) {
+    median = (sortedValues[mid - 1] + sortedValues[mid]) / 2;
+  } else {
+    median = sortedValues[mid];
+  }
+
+  const stdDev =
+    sortedValues.length > 1
+      ? Math.sqrt(
+          sortedValues.reduce((sum, val) => sum + (val - avg) ** 2, 0) /
+            (sortedValues.length - 1)
+        )
+      : 0;
+  const p25 = percentile(sortedValues, 25);
+  const p75 = percentile(sortedValues, 75);
+
+  return {
+    count: sortedValues.length,
+    min,
+    max,
+    avg,
+    median,
+    stdDev,
+    cv: avg !== 0 ? stdDev / Math.abs(avg) : undefined,
+    p25,
+    p75,
+    p90: percentile(sortedValues, 90),
+    p95: percentile(sortedValues, 95),
+    p99: percentile(sortedValues, 99),
+    iqr: p75 - p25,
+  };
+}
+
+// Splits samples into kept and rejected using Tukey's IQR fences or the
+// modified z-score on the median absolute deviation.
+function rejectOutliers(
+  samples: MetricSample[],
+  method: OutlierMethod
+): { kept: MetricSample[]; rejected: MetricSample[] } {
+  if (method === "none" || samples.length < MIN_SAMPLES_FOR_OUTLIER_REJECTION) {
+    return { kept: samples, rejected: [] };
+  }
+
+  const values = samples.map((sample) => sample.value);
+  let isOutlier: (value: number) => boolean;
+  if (method === "iqr") {
+    const { p25, p75, iqr } = calculateStats(values);
+    const low = p25 - IQR_FENCE_FACTOR * iqr;
+    const high = p75 + IQR_FENCE_FACTOR * iqr;
+    isOutlier = (value) => value < low || value > high;
+  } else {
+    const center = median(values);
+    const mad = median(values.map((value) => Math.abs(value - center)));
+    // With more than half the samples identical MAD is 0 and every other
+    // value would be "infinitely" far out; keep everything instead.
+    if (mad === 0) return { kept: samples, rejected: [] };
+    isOutlier = (value) =>
+      (0.6745 * Math.abs(value - center)) / mad > MAD_Z_SCORE_THRESHOLD;
+  }
+
+  return {
+    kept: samples.filter((sample) => !isOutlier(sample.value)),
+    rejected: samples.filter((sample) => isOutlier(sample.value)),
+  };
+}
+
+// <window>_thread_<thread>_<state>, see collectMetricSamples.
+const THREAD_STATE_METRIC_PATTERN =
+  /_thread_\w+_(running|runnable|sleeping|uninterruptible)$/;
+
+// Thread state splits explain a timing rather than being one, so they are
+// not flagged for variance.
+function isTimingMetric(name: string, metric: { unit: MetricUnit }): boolean {
+  return (
+    (metric.unit === "seconds" || metric.unit === "ms") &&
+    !name.endsWith("_absolute") &&
+    !THREAD_STATE_METRIC_PATTERN.test(name)
+  );
+}
+
+// Accepts the metric's summary key, a paired marker name (resolves to its
+// duration) or a custom marker name (resolves to its time from t=0).
+function resolveMetricKey(
+  metrics: Record<string, MetricSeries>,
+  name: string
+): string | undefined {
+  return [name, `${name}_duration`, `${name}_relative`].find(
+    (key) => key in metrics
+  );
+}
+
+// Converts a budget limit into the metric's unit. Returns undefined when the
+// limit's unit doesn't fit the metric (e.g. "5%" on a duration).
+function parseBudgetLimit(
+  limit: number | string,
+  unit: MetricUnit
+): number | undefined {
+  if (typeof limit === "number") return limit;
+
+  const match = limit.trim().match(/^(-?[0-9.]+)\s*(ms|s|%|kb|mb|gb)?$/i);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  const suffix = match[2]?.toLowerCase();
+  if (Number.isNaN(value)) return undefined;
+
+  if (!suffix) return value;
+  if (suffix === "%") return unit === "percent" ? value : undefined;
+  if (suffix === "kb" || suffix === "mb" || suffix === "gb") {
+    const kilobytes = { kb: 1, mb: 1024, gb: 1024 * 1024 }[suffix];
+    return unit === "kb" ? value * kilobytes : undefined;
+  }
+  const seconds = suffix === "ms" ? value / 1000 : value;
+  if (unit === "seconds") return seconds;
+  if (unit === "ms") return seconds * 1000;
+  return undefined;
+}
+
+function evaluateBudget(
+  budget: PerformanceBudget,
+  metrics: SummaryReport["metrics"]
+): BudgetResult {
+  const statistic = budget.statistic ?? "median";
+  const result: BudgetResult = {
+    metric: budget.metric,
+    statistic,
+    status: "invalid",
+  };
+
+  if (!BUDGET_STATISTICS.includes(statistic)) {
+    result.message = `Unknown statistic "${statistic}"`;
+    return result;
+  }
+  if (budget.max === undefined && budget.min === undefined) {
+    result.message = "Budget needs a max or min limit";
+    return result;
+  }
+
+  const key = resolveMetricKey(metrics, budget.metric);
+  if (!key || metrics[key].samples.length === 0) {
+    result.status = "no_data";
+    result.message = "Metric not found in any iteration";
+    return result;
+  }
+
+  const metric = metrics[key];
+  result.resolvedMetric = key;
+  result.unit = metric.unit;
+
+  for (const bound of ["max", "min"] as const) {
+    const limit = budget[bound];
+    if (limit === undefined) continue;
+    const parsed = parseBudgetLimit(limit, metric.unit);
+    if (parsed === undefined) {
+      result.message = `Cannot compare ${bound} "${limit}" with a metric in ${metric.unit}`;
+      return result;
+    }
+    result[bound] = parsed;
+  }
+
+  const value =
+    metric.stats[
+      statistic === "p50" ? "median" : (statistic as keyof MetricStats)
+    ] ?? 0;
+  result.value = value;
+
+  const overMax = result.max !== undefined && value >= result.max;
+  const underMin = result.min !== undefined && value <= result.min;
+  result.status = overMax || underMin ? "fail" : "pass";
+  return result;
+}
+
+function buildSummaryReport(
+  config: Config,
+  deviceInfo: DeviceInfo,
+  runs: IterationMetrics[],
+  adaptive?: AdaptiveResult
+): SummaryReport {
+  const metrics: SummaryReport["metrics"] = {};
+  for (const [key, series] of Object.entries(collectMetricSamples(runs))) {
+    // Absolute timestamps are time since boot, so their spread across
+    // iterations says nothing about outliers.
+    const { kept, rejected } = key.endsWith("_absolute")
+      ? { kept: series.samples, rejected: [] }
+      : rejectOutliers(series.samples, config.outlierMethod);
+    metrics[key] = {
+      unit: series.unit,
+      samples: kept,
+      ...(rejected.length > 0 ? { rejected } : {}),
+      stats: calculateStats(kept.map((sample) => sample.value)),
+    };
+  }
+
+  const longTaskGroups = new Map<
+    string,
+    {
+      thread: LongTaskThread;
+      name?: string;
+      iterations: Set<number>;
+      durations: number[];
+    }
+  >();
+  for (const run of runs) {
+    for (const task of run.longTasks?.tasks ?? []) {
+      const key = `${task.thread}|${task.name ?? ""}`;
+      const group = longTaskGroups.get(key) ?? {
+        thread: task.thread,
+        name: task.name,
+        iterations: new Set<number>(),
+        durations: [],
+      };
+      group.iterations.add(run.iteration);
+      group.durations.push(task.durationMs);
+      longTaskGroups.set(key, group);
+    }
+  }
+  const topLongTasks = [...longTaskGroups.values()]
+    .map((group) => ({
+      thread: group.thread,
+      name: group.name,
+      iterations: [...group.iterations],
+      medianMs: parseFloat(median(group.durations).toFixed(2)),
+    }))
+    .sort(
+      (a, b) =>
+        b.iterations.length - a.iterations.length || b.medianMs - a.medianMs
+    )
+    .slice(0, LONG_TASKS_REPORTED);
+
+  const counterTracks = [
+    ...new Set(
+      runs.flatMap((run) =>
+        (run.counters ?? []).map((counter, _, counters) =>
+          counterTrackLabel(counter, counters)
+        )
+      )
+    ),
+  ];
+
+  return {
+    schemaVersion: METRICS_SCHEMA_VERSION,
+    date: new Date().toISOString(),
+    appPackage: config.appPackage,
+    appActivity: config.appActivity || `${config.appPackage}.MainActivity`,
+    iterations: config.iterations,
+    successfulIterations: runs.map((run) => run.iteration),
+    launchStateMismatches: runs
+      .filter((run) => run.launch?.launchStateMismatch)
+      .map((run) => run.iteration),
+    scenario: config.scenario?.name,
+    scenarioFailures: config.scenario
+      ? runs.filter((run) => !run.scenario?.passed).map((run) => run.iteration)
+      : undefined,
+    scenarioStepFailures: config.scenario
+      ? runs
+          .filter(
+            (run) => !run.scenario?.steps.every((step) => step.status === "ok")
+          )
+          .map((run) => run.iteration)
+      : undefined,
+    scenarioMissingMarkers: config.scenario
+      ? Object.fromEntries(
+          config.scenario.expectedMarkers.map((marker) => [
+            marker,
+            runs
+              .filter(
+                (run) =>
+                  !run.scenario?.expectedMarkers.some(
+                    (expected) => expected.marker === marker && expected.found
+                  )
+              )
+              .map((run) => run.iteration),
+          ])
+        )
+      : undefined,
+    mode: config.startMode,
+    device: deviceInfo,
+    customMarkers: config.customMarkers,
+    pairedMarkers: config.pairedMarkers,
+    counterTracks,
+    outlierMethod: config.outlierMethod,
+    warmupIterations: config.warmupIterations || undefined,
+    adaptive,
+    longTaskThresholdsMs: runs.some((run) => run.longTasks)
+      ? config.longTaskThresholdsMs
+      : undefined,
+    topLongTasks: topLongTasks.length > 0 ? topLongTasks : undefined,
+    metrics,
+    budgets:
+      config.budgets.length > 0
+        ? config.budgets.map((budget) => evaluateBudget(budget, metrics))
+        : undefined,
+  };
+}
+
+function formatMetricValue(value: number, unit: MetricUnit): string {
+  if (unit === "seconds") return `${value.toFixed(3)} seconds`;
+  if (unit === "ms") return `${value.toFixed(2)} ms`;
+  if (unit === "percent") return `${value.toFixed(2)}%`;
+  if (unit === "kb") return `${value.toFixed(0)} KB`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+function renderStats(
+  name: string,
+  metric: SummaryMetric,
+  indent: string,
+  iterations: number
+): string {
+  const { stats, unit } = metric;
+  const value = (v: number) => formatMetricValue(v, unit);
+
+  let content = `${indent}- Samples: ${stats.count} (${iterations} iteration(s) attempted`;
+  if (metric.rejected) {
+    content += `, ${metric.rejected.length} outlier(s) rejected`;
+  }
+  content += ")\n";
+  content += `${indent}- Min: ${value(stats.min)}\n`;
+  content += `${indent}- Max: ${value(stats.max)}\n`;
+  content += `${indent}- Avg: ${value(stats.avg)}\n`;
+  content += `${indent}- Median: ${value(stats.median)}\n`;
+  if (stats.count > 1) {
+    content += `${indent}- Std Dev: ${value(stats.stdDev)}`;
+    if (stats.cv !== undefined) {
+      content += ` (CV ${(stats.cv * 100).toFixed(1)}%)`;
+    }
+    content += "\n";
+    content += `${indent}- p75 / p90 / p95 / p99: ${[
+      stats.p75,
+      stats.p90,
+      stats.p95,
+      stats.p99,
+    ]
+      .map(value)
+      .join(" / ")}\n`;
+    content += `${indent}- IQR: ${value(stats.iqr)}\n`;
+  }
+  if (isHighVariance(name, metric)) {
+    content += `${indent}- WARNING: coefficient of variation is above ${
+      HIGH_CV_THRESHOLD * 100
+    }%, too noisy to trust this result\n`;
+  }
+  content += "\n";
+  return content;
+}
+
+function isHighVariance(name: string, metric: SummaryMetric): boolean {
+  return (
+    isTimingMetric(name, metric) &&
+    metric.stats.count > 1 &&
+    (metric.stats.cv ?? 0) > HIGH_CV_THRESHOLD
+  );
+}
+
+function renderBudgetResult(budget: BudgetResult): string {
+  const labels: Record<BudgetStatus, string> = {
+    pass: "PASS",
+    fail: "FAIL",
+    no_data: "NO DATA",
+    invalid: "INVALID",
+  };
+  const limits = [
+    budget.max !== undefined &&
+      `< ${formatMetricValue(budget.max, budget.unit ?? "value")}`,
+    budget.min !== undefined &&
+      `> ${formatMetricValue(budget.min, budget.unit ?? "value")}`,
+  ]
+    .filter(Boolean)
+    .join(" and ");
+
+  let line = `[${labels[budget.status]}] ${budget.metric} ${budget.statistic}`;
+  if (budget.value !== undefined) {
+    line += `: ${formatMetricValue(budget.value, budget.unit ?? "value")}`;
+  }
+  if (limits) line += ` (budget ${limits})`;
+  if (budget.message) line += ` - ${budget.message}`;
+  return line;
+}
+
+function renderSummaryText(summary: SummaryReport): string {
+  const statsFor = (key: string, indent = "  "): string | undefined => {
+    const metric = summary.metrics[key];
+    return metric && metric.samples.length > 0
+      ? renderStats(key, metric, indent, summary.iterations)
+      : undefined;
+  };
+
+  let content = "===== Performance Summary Report =====\n";
+  content += `Date: ${summary.date}\n`;
+  content += `App Package: ${summary.appPackage}\n`;
+  content += `App Activity: ${summary.appActivity}\n`;
+  content += `Test Iterations: ${summary.iterations}\n`;
+  if (summary.warmupIterations) {
+    content += `Warm-up Iterations: ${summary.warmupIterations} (excluded)\n`;
+  }
+  if (summary.adaptive) {
+    const { adaptive } = summary;
+    content += `Adaptive Iterations: ${
+      adaptive.converged ? "target reached" : "target NOT reached"
+    } for ${adaptive.metric} (CI width < ${adaptive.targetWidth}, cap ${
+      adaptive.maxIterations
+    })`;
+    const interval = adaptive.confidenceInterval;
+    const unit = adaptive.resolvedMetric
+      ? summary.metrics[adaptive.resolvedMetric]?.unit
+      : undefined;
+    if (interval && unit) {
+      content += `, ${Math.round(
+        interval.level * 100
+      )}% CI [${formatMetricValue(interval.low, unit)}, ${formatMetricValue(
+        interval.high,
+        unit
+      )}]`;
+    }
+    content += "\n";
+  }
+  content += `Run Mode: ${formatRunMode(summary.mode)}\n`;
+  content += `Outlier Rejection: ${
+    summary.outlierMethod === "none"
+      ? "off"
+      : summary.outlierMethod.toUpperCase()
+  }\n\n`;
+
+  content += `Device Model: ${summary.device.model || "Unknown"}\n`;
+  if (summary.device.serial) {
+    content += `Device Serial: ${summary.device.serial}\n`;
+  }
+  content += `Android Version: ${summary.device.androidVersion || "Unknown"}\n`;
+  if (summary.device.stabilization) {
+    const { stabilization } = summary.device;
+    content += `Stabilization: ${formatDeviceStabilization(stabilization)}\n`;
+    content += `Settings Restored: ${
+      stabilization.restored ? "yes" : "NO, check the device"
+    }\n`;
+  }
+  content += "\n";
+
+  if (summary.budgets) {
+    const passed = summary.budgets.filter(
+      (budget) => budget.status === "pass"
+    ).length;
+    content += `== Performance Budgets (${passed}/${summary.budgets.length} passed) ==\n`;
+    for (const budget of summary.budgets) {
+      content += `${renderBudgetResult(budget)}\n`;
+    }
+    content += "\n";
+  }
+
+  const withOutliers = Object.entries(summary.metrics).filter(
+    ([, metric]) => metric.rejected
+  );
+  if (withOutliers.length > 0) {
+    content += "== Rejected Outliers ==\n";
+    for (const [key, metric] of withOutliers) {
+      const rejected = (metric.rejected ?? []).map(
+        (sample) =>
+          `iteration ${sample.iteration} (${formatMetricValue(
+            sample.value,
+            metric.unit
+          )})`
+      );
+      content += `${key}: ${rejected.join(", ")}\n`;
+    }
+    content += "\n";
+  }
+
+  const noisy = Object.entries(summary.metrics).filter(([key, metric]) =>
+    isHighVariance(key, metric)
+  );
+  if (noisy.length > 0) {
+    content += `WARNING: ${
+      noisy.length
+    } timing metric(s) have a coefficient of variation above ${
+      HIGH_CV_THRESHOLD * 100
+    }% and should not be trusted without more iterations or a quieter device:\n`;
+    for (const [key, metric] of noisy) {
+      content += `  - ${key} (CV ${((metric.stats.cv ?? 0) * 100).toFixed(
+        1
+      )}%)\n`;
+    }
+    content += "\n";
+  }
+
+  content += "== App Lifecycle Events ==\n";
+
+  for (const event of LIFECYCLE_EVENTS) {
+    const stats = statsFor(LIFECYCLE_SUMMARY_KEYS[event]);
+    if (!stats) continue;
+
+    content += `${LIFECYCLE_LABELS[event]}:\n`;
+    content += stats;
+  }
+
+  for (const [key, label] of [
+    ["launch_total_time", "System-Reported Total Time (am start -W)"],
+    ["launch_wait_time", "System-Reported Wait Time (am start -W)"],
+    ["launch_this_time", "System-Reported This Time (am start -W)"],
+  ]) {
+    const stats = statsFor(key);
+    if (!stats) continue;
+
+    content += `${label}:\n`;
+    content += stats;
+  }
+
+  const startupTotal = summary.metrics.startup_phases_total;
+  if (startupTotal && startupTotal.samples.length > 0) {
+    const phases = (Object.keys(STARTUP_PHASE_LABELS) as StartupPhaseKey[])
+      .map((key) => ({
+        key,
+        start: summary.metrics[`startup_phase_${key}_start`],
+        duration: summary.metrics[`startup_phase_${key}`],
+      }))
+      .filter(
+        ({ start, duration }) =>
+          start?.samples.length > 0 && duration?.samples.length > 0
+      )
+      .map(({ key, start, duration }) => ({
+        key,
+        start: start.stats.median,
+        duration: duration.stats.median,
+      }))
+      .sort((a, b) => a.start - b.start);
+    content += "== Startup Phases (median per iteration) ==\n";
+    content += renderStartupWaterfall(phases, startupTotal.stats.median);
+    content += "\n";
+  }
+
+  if (summary.launchStateMismatches.length > 0) {
+    content += `WARNING: Launch state did not match the ${formatRunMode(
+      summary.mode
+    )} run mode in iteration(s) ${summary.launchStateMismatches.join(
+      ", "
+    )}\n\n`;
+  }
+
+  if (summary.scenarioFailures && summary.scenarioFailures.length > 0) {
+    content += `WARNING: Scenario ${
+      summary.scenario
+    } failed or missed expected markers in iteration(s) ${summary.scenarioFailures.join(
+      ", "
+    )}\n\n`;
+  }
+
+  content += "== Custom Markers ==\n";
+  for (const marker of summary.customMarkers) {
+    content += `=== ${marker} ===\n`;
+
+    const absolute = statsFor(`${marker}_absolute`);
+    if (absolute) {
+      content += "Absolute Time:\n";
+      content += absolute;
+    } else {
+      content += "Absolute Time: Not found in traces\n\n";
+    }
+
+    const relative = statsFor(`${marker}_relative`);
+    if (relative) {
+      content += "Time from App Start (t=0):\n";
+      content += relative;
+    } else {
+      content += "Time from App Start: Not found in traces\n\n";
+    }
+
+    const sliceDuration = statsFor(`${marker}_slice_duration`);
+    if (sliceDuration) {
+      content += "Slice Duration:\n";
+      content += sliceDuration;
+    }
+  }
+
+  if (summary.pairedMarkers.length > 0) {
+    content += "== Paired Markers ==\n";
+    for (const pair of summary.pairedMarkers) {
+      content += `=== ${pair.name} ===\n`;
+
+      const markers =
+        pair.start === pair.end ? [pair.start] : [pair.start, pair.end];
+      for (const marker of markers) {
+        content += `${marker}:\n`;
+
+        const absolute = statsFor(`${marker}_absolute`, "    ");
+        if (absolute) {
+          content += "  Absolute Time:\n";
+          content += absolute;
+        } else {
+          content += "  Absolute Time: Not found in traces\n\n";
+        }
+
+        const relative = statsFor(`${marker}_relative`, "    ");
+        if (relative) {
+          content += "  Time from App Start (t=0):\n";
+          content += relative;
+        } else {
+          content += "  Time from App Start: Not found in traces\n\n";
+        }
+      }
+
+      content +=
+        pair.start === pair.end
+          ? `Duration (${pair.start} slice):\n`
+          : `Duration (${pair.end} - ${pair.start}):\n`;
+      const duration = statsFor(`${pair.name}_duration`);
+      if (duration) {
+        content += duration;
+      } else {
+        content += "  Duration: Could not be calculated\n\n";
+      }
 
-    if (!appStartTimestamp) {
-      const firstTimestampMatch = traceContent.match(
-        /\S+\s+\(\s*\d+\)\s+\[\d+\]\s+\.+\s+([0-9.]+):/
-      );
-      if (firstTimestampMatch) {
-        appStartTimestamp = parseFloat(firstTimestampMatch[1]);
-        console.log(
-          `Using first timestamp in trace as app start: ${appStartTimestamp}`
-        );
+      const occurrences = statsFor(`${pair.name}_occurrences`);
+      if (occurrences) {
+        content += "Occurrences per Iteration:\n";
+        content += occurrences;
       }
     }
+  }
 
-    metrics.appStartTimestamp = appStartTimestamp;
-
-    if (!appStartTimestamp) {
-      console.error(
-        "Could not find app start timestamp in trace. Metrics will be incomplete."
-      );
+  const frameMetrics: Array<[string, string]> = [
+    ["frames_total", "Total Frames"],
+    ["frames_janky_percent", "Janky Frames"],
+    ["frame_time_p50", "Frame Time p50"],
+    ["frame_time_p90", "Frame Time p90"],
+    ["frame_time_p95", "Frame Time p95"],
+    ["frame_time_p99", "Frame Time p99"],
+    ["frames_missed_vsync", "Missed Vsync"],
+    ["frames_slow_ui_thread", "Slow UI Thread"],
+    ["frames_slow_bitmap_uploads", "Slow Bitmap Uploads"],
+  ];
+  if (frameMetrics.some(([key]) => statsFor(key))) {
+    content += "== Frame Statistics (gfxinfo) ==\n";
+    for (const [key, label] of frameMetrics) {
+      const stats = statsFor(key);
+      if (!stats) continue;
+
+      content += `${label}:\n`;
+      content += stats;
     }
+  }
 
-    const createMatch = traceContent.match(
-      /([0-9.]+).*performCreate.*?${config.appPackage}/
-    );
-    const startMatch = traceContent.match(
-      /([0-9.]+).*performStart.*?${config.appPackage}/
-    );
-    const resumeMatch = traceContent.match(
-      /([0-9.]+).*performResume.*?${config.appPackage}/
-    );
-    const drawnMatch = traceContent.match(
-      /([0-9.]+).*reportFullyDrawn.*?${config.appPackage}/
-    );
-
-    if (createMatch)
-      metrics.activityCreateTimestamp = parseFloat(createMatch[1]);
-    if (startMatch) metrics.activityStartTimestamp = parseFloat(startMatch[1]);
-    if (resumeMatch)
-      metrics.activityResumeTimestamp = parseFloat(resumeMatch[1]);
-    if (drawnMatch) metrics.activityDrawnTimestamp = parseFloat(drawnMatch[1]);
+  const traceFrameMetrics: Array<[string, string]> = [
+    ["trace_frames_total", "Frames"],
+    ["trace_frames_janky_percent", "Janky Frames"],
+    ...(Object.entries(JANK_CAUSE_LABELS).map(([cause, label]) => [
+      `trace_jank_${cause}`,
+      `Janky Frames Caused by ${label}`,
+    ]) as Array<[string, string]>),
+    ...summary.pairedMarkers.map((pair): [string, string] => [
+      `${pair.name}_janky_frames`,
+      `Janky Frames During ${pair.name}`,
+    ]),
+  ];
+  if (traceFrameMetrics.some(([key]) => statsFor(key))) {
+    content += "== Frame Analysis (trace) ==\n";
+    for (const [key, label] of traceFrameMetrics) {
+      const stats = statsFor(key);
+      if (!stats) continue;
+
+      content += `${label}:\n`;
+      content += stats;
+    }
+  }
 
-    for (const marker of config.customMarkers) {
-      const patterns = [
-        new RegExp(
-          `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:\\s+\\w+\\|\\d+\\|${marker}`
-        ),
-        new RegExp(
-          `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*${marker}`
-        ),
-        new RegExp(`([0-9.]+).*PerfettoTracer.*beginTrace.*${marker}`),
-        new RegExp(`([0-9.]+).*PerfettoTracer.*${marker}`),
-        new RegExp(`([0-9.]+).*beginTrace.*${marker}`),
-        new RegExp(`([0-9.]+).*${marker}.*begin`),
-        new RegExp(`([0-9.]+).*begin.*${marker}`),
-        new RegExp(`([0-9.]+).*TEST_EVENT_MANUAL`),
-        new RegExp(`([0-9.]+).*test_event_manual`),
-        new RegExp(`([0-9.]+).*${marker}`),
-      ];
-
-      for (const pattern of patterns) {
-        const markerMatch = traceContent.match(pattern);
-        if (markerMatch) {
-          metrics[`${marker}Timestamp`] = parseFloat(markerMatch[1]);
-          console.log(`Found marker: ${marker} at time ${markerMatch[1]}`);
-          break;
-        }
+  const memoryPrefixes: Array<[string, string]> = [
+    ["memory", "At End of Iteration"],
+    ...summary.pairedMarkers.map((pair): [string, string] => [
+      `${pair.name}_memory`,
+      `At End of ${pair.name}`,
+    ]),
+  ];
+  const memoryMetrics = memoryPrefixes
+    .map(([prefix, heading]): [string, Array<[string, string]>] => [
+      heading,
+      [
+        ...MEMORY_METRICS.map(([, suffix, label]): [string, string] => [
+          `${prefix}_${suffix}`,
+          label,
+        ]),
+        ...MEMORY_OBJECT_COUNTS.map((name): [string, string] => [
+          `${prefix}_objects_${memoryObjectKey(name)}`,
+          name,
+        ]),
+      ],
+    ])
+    .filter(([, metrics]) => metrics.some(([key]) => statsFor(key)));
+  if (memoryMetrics.length > 0) {
+    content += "== Memory (dumpsys meminfo) ==\n";
+    for (const [heading, metrics] of memoryMetrics) {
+      content += `=== ${heading} ===\n`;
+      for (const [key, label] of metrics) {
+        const stats = statsFor(key);
+        if (!stats) continue;
+
+        content += `${label}:\n`;
+        content += stats;
       }
     }
+  }
 
-    for (const pair of config.pairedMarkers) {
-      const startPatterns = [
-        new RegExp(
-          `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:\\s+\\w+\\|\\d+\\|${pair.start}`
-        ),
-        new RegExp(
-          `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*${pair.start}`
-        ),
-        new RegExp(`([0-9.]+).*PerfettoTracer.*beginTrace.*${pair.start}`),
-        new RegExp(`([0-9.]+).*PerfettoTracer.*${pair.start}`),
-        new RegExp(`([0-9.]+).*${pair.start}`),
-      ];
-
-      const endPatterns = [
-        new RegExp(
-          `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:\\s+\\w+\\|\\d+\\|${pair.end}`
-        ),
-        new RegExp(
-          `\\S+\\s+\\(\\s*\\d+\\)\\s+\\[\\d+\\]\\s+\\.+\\s+([0-9.]+):\\s+tracing_mark_write:.*${pair.end}`
-        ),
-        new RegExp(`([0-9.]+).*PerfettoTracer.*beginTrace.*${pair.end}`),
-        new RegExp(`([0-9.]+).*PerfettoTracer.*${pair.end}`),
-        new RegExp(`([0-9.]+).*${pair.end}`),
-      ];
-
-      let startTimestamp = 0;
-      let endTimestamp = 0;
-
-      for (const pattern of startPatterns) {
-        const match = traceContent.match(pattern);
-        if (match) {
-          startTimestamp = parseFloat(match[1]);
-          metrics[`${pair.start}Timestamp`] = startTimestamp;
-          console.log(
-            `Found start marker: ${pair.start} at time ${startTimestamp}`
-          );
-          break;
-        }
+  if (summary.longTaskThresholdsMs) {
+    const thresholds = summary.longTaskThresholdsMs;
+    const lines: string[] = [];
+    for (const window of [
+      "startup",
+      ...summary.pairedMarkers.map((p) => p.name),
+    ]) {
+      const counts = (Object.keys(thresholds) as LongTaskThread[])
+        .map((thread) => {
+          const count = summary.metrics[`${window}_long_tasks_${thread}`];
+          const total = summary.metrics[`${window}_long_tasks_${thread}_ms`];
+          return count && count.samples.length > 0
+            ? `${LONG_TASK_THREAD_LABELS[thread]} ${
+                count.stats.median
+              } (${formatMetricValue(total?.stats.median ?? 0, "ms")})`
+            : undefined;
+        })
+        .filter(Boolean);
+      if (counts.length > 0) lines.push(`${window}: ${counts.join(", ")}`);
+    }
+
+    content += `== Long Tasks (${formatLongTaskThresholds(thresholds)}) ==\n`;
+    content += "Median count (and total duration) per iteration:\n";
+    content += lines.map((line) => `  ${line}\n`).join("");
+    if (summary.topLongTasks) {
+      content += "Most frequent:\n";
+      for (const task of summary.topLongTasks) {
+        content += `  - ${task.name ?? "(busy period without slices)"} on ${
+          LONG_TASK_THREAD_LABELS[task.thread]
+        }: ${
+          task.iterations.length
+        } iteration(s), median ${task.medianMs.toFixed(2)} ms\n`;
       }
+    }
+    content += "\n";
+  }
 
-      for (const pattern of endPatterns) {
-        const match = traceContent.match(pattern);
-        if (match) {
-          endTimestamp = parseFloat(match[1]);
-          metrics[`${pair.end}Timestamp`] = endTimestamp;
-          console.log(`Found end marker: ${pair.end} at time ${endTimestamp}`);
-          break;
+  const threadStateWindows = [
+    "startup",
+    ...summary.pairedMarkers.map((p) => p.name),
+  ];
+  const threadStateLines: string[] = [];
+  for (const window of threadStateWindows) {
+    const lines: string[] = [];
+    for (const thread of Object.keys(KEY_THREAD_LABELS) as KeyThread[]) {
+      const medians: Partial<Record<ThreadState, number>> = {};
+      for (const state of Object.keys(THREAD_STATE_LABELS) as ThreadState[]) {
+        const metric = summary.metrics[`${window}_thread_${thread}_${state}`];
+        if (metric && metric.samples.length > 0) {
+          medians[state] = metric.stats.median;
         }
       }
-
-      if (startTimestamp && endTimestamp) {
-        metrics[`${pair.name}Duration`] = endTimestamp - startTimestamp;
-        console.log(
-          `Duration for ${pair.name}: ${metrics[`${pair.name}Duration`].toFixed(
-            3
-          )}s`
+      if (Object.keys(medians).length > 0) {
+        lines.push(
+          `  - ${KEY_THREAD_LABELS[thread]}: ${formatThreadStates(medians)}`
         );
       }
     }
+    if (lines.length > 0) {
+      threadStateLines.push(
+        `${window === "startup" ? "Startup" : window}:`,
+        ...lines
+      );
+    }
+  }
+  if (threadStateLines.length > 0) {
+    content += "== Thread States (median per iteration) ==\n";
+    content += threadStateLines.join("\n") + "\n\n";
+  }
 
-    if (appStartTimestamp) {
-      if (metrics.activityCreateTimestamp) {
-        metrics.timeToCreate =
-          metrics.activityCreateTimestamp - appStartTimestamp;
-      }
-      if (metrics.activityStartTimestamp) {
-        metrics.timeToStart =
-          metrics.activityStartTimestamp - appStartTimestamp;
-      }
-      if (metrics.activityResumeTimestamp) {
-        metrics.timeToResume =
-          metrics.activityResumeTimestamp - appStartTimestamp;
-      }
-      if (metrics.activityDrawnTimestamp) {
-        metrics.timeToFullyDrawn =
-          metrics.activityDrawnTimestamp - appStartTimestamp;
+  if (summary.counterTracks.length > 0) {
+    content += "== Counter Tracks ==\n";
+    for (const counter of summary.counterTracks) {
+      content += `=== ${counter} ===\n`;
+      for (const [suffix, label] of [
+        ["last", "Last Value"],
+        ["max", "Peak Value"],
+        ["min", "Lowest Value"],
+      ]) {
+        const stats = statsFor(`${counter}_counter_${suffix}`);
+        if (!stats) continue;
+
+        content += `${label}:\n`;
+        content += stats;
       }
+    }
+  }
 
-      for (const marker of config.customMarkers) {
-        const markerTimestamp = metrics[`${marker}Timestamp`];
-        if (markerTimestamp) {
-          metrics[`timeTo${marker}`] = markerTimestamp - appStartTimestamp;
-        }
-      }
+  content += "== Raw Data by Iteration ==\n";
+  for (const [key, metric] of Object.entries(summary.metrics)) {
+    if (metric.samples.length === 0) continue;
+
+    content += `${key}:\n`;
+    for (const sample of metric.samples) {
+      content += `  - Iteration ${sample.iteration}: ${formatMetricValue(
+        sample.value,
+        metric.unit
+      )}\n`;
+    }
+    content += "\n";
+  }
 
-      for (const pair of config.pairedMarkers) {
-        const startTimestamp = metrics[`${pair.start}Timestamp`];
-        const endTimestamp = metrics[`${pair.end}Timestamp`];
+  return content;
+}
 
-        if (startTimestamp) {
-          metrics[`timeTo${pair.start}`] = startTimestamp - appStartTimestamp;
-        }
+const HTML_CHART_WIDTH = 760;
+const HTML_LABEL_WIDTH = 220;
+const HTML_ROW_HEIGHT = 26;
+const HTML_AXIS_TICKS = 5;
+
+const HTML_REPORT_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+h1 { font-size: 1.4rem; } h2 { font-size: 1.15rem; margin-top: 2rem; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 0.2rem 1rem; }
+dt { font-weight: 600; } dd { margin: 0; }
+svg text { font-size: 11px; fill: #333; }
+svg .grid { stroke: #e3e3e3; } svg .zero { stroke: #888; }
+svg .whisker, svg .median { stroke: #333; stroke-width: 1.5; }
+svg .box { fill: #9ecae1; stroke: #3182bd; }
+svg .sample { fill: #e6550d; fill-opacity: 0.7; }
+svg .lifecycle { fill: #3182bd; } svg .custom { fill: #31a354; }
+svg .paired { fill: #e6550d; fill-opacity: 0.8; }
+details { margin: 0.5rem 0; } summary { cursor: pointer; font-weight: 600; }
+table { border-collapse: collapse; font-size: 0.85rem; }
+th, td { border: 1px solid #ddd; padding: 0.2rem 0.5rem; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+td.rejected { color: #999; text-decoration: line-through; }
+#raw-filter { margin-bottom: 0.5rem; width: 20rem; }
+.screenshots { display: flex; flex-wrap: wrap; gap: 1rem; }
+.screenshots img { width: 180px; border: 1px solid #ccc; cursor: zoom-in; }
+.screenshots img.expanded { width: 480px; cursor: zoom-out; }
+`;
+
+// Table filtering and screenshot zoom only; the charts are static SVG with
+// <title> tooltips, so the report works without any external script.
+const HTML_REPORT_SCRIPT = `
+document.getElementById("raw-filter")?.addEventListener("input", (event) => {
+  const query = event.target.value.toLowerCase();
+  for (const row of document.querySelectorAll("#raw-data tbody tr")) {
+    row.hidden = !row.dataset.metric.includes(query);
+  }
+});
+for (const image of document.querySelectorAll(".screenshots img")) {
+  image.addEventListener("click", () => image.classList.toggle("expanded"));
+}
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
 
-        if (endTimestamp) {
-          metrics[`timeTo${pair.end}`] = endTimestamp - appStartTimestamp;
-        }
-      }
-    }
+// Rounds up to 1, 2 or 5 times a power of ten so the ticks are readable.
+function niceAxisMax(value: number): number {
+  if (!(value > 0)) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return [1, 2, 5, 10].find((step) => step * magnitude >= value)! * magnitude;
+}
 
-    const normalizeTimestamp = (timestamp: number): number => {
-      if (timestamp > 1000000) {
-        return parseFloat((timestamp / 1000000).toFixed(3));
-      }
-      return timestamp;
+// A horizontal chart with one labelled row per entry and a shared axis
+// starting at 0. Each row draws itself from the x scale and its center line.
+function renderSvgChart(
+  rows: Array<{
+    label: string;
+    render: (x: (value: number) => number, y: number) => string;
+  }>,
+  axisMax: number,
+  formatTick: (value: number) => string
+): string {
+  const plotWidth = HTML_CHART_WIDTH - HTML_LABEL_WIDTH - 30;
+  const plotHeight = rows.length * HTML_ROW_HEIGHT;
+  const height = plotHeight + 24;
+  const x = (value: number) =>
+    (HTML_LABEL_WIDTH + (Math.max(0, value) / axisMax) * plotWidth).toFixed(1);
+
+  let svg = `<svg viewBox="0 0 ${HTML_CHART_WIDTH} ${height}" width="${HTML_CHART_WIDTH}" height="${height}">`;
+  for (let tick = 0; tick <= HTML_AXIS_TICKS; tick++) {
+    const value = (axisMax * tick) / HTML_AXIS_TICKS;
+    svg += `<line class="${tick === 0 ? "zero" : "grid"}" x1="${x(
+      value
+    )}" x2="${x(value)}" y1="0" y2="${plotHeight}"/>`;
+    svg += `<text x="${x(value)}" y="${
+      plotHeight + 16
+    }" text-anchor="middle">${escapeHtml(formatTick(value))}</text>`;
+  }
+  rows.forEach((row, index) => {
+    const y = index * HTML_ROW_HEIGHT + HTML_ROW_HEIGHT / 2;
+    svg += `<text x="${
+      HTML_LABEL_WIDTH - 8
+    }" y="${y}" text-anchor="end" dominant-baseline="middle">${escapeHtml(
+      row.label
+    )}</text>`;
+    svg += row.render((value) => parseFloat(x(value)), y);
+  });
+  return svg + "</svg>";
+}
+
+function renderBoxPlots(
+  summary: SummaryReport,
+  entries: Array<[string, string]>
+): string {
+  const plotted = entries.filter(
+    ([key]) => summary.metrics[key]?.samples.length > 0
+  );
+  if (plotted.length === 0) return "<p>No data.</p>";
+
+  const unit = summary.metrics[plotted[0][0]].unit;
+  const axisMax = niceAxisMax(
+    Math.max(...plotted.map(([key]) => summary.metrics[key].stats.max))
+  );
+  const rows = plotted.map(([key, label]) => {
+    const { stats, samples } = summary.metrics[key];
+    const format = (value: number) => formatMetricValue(value, unit);
+    return {
+      label,
+      render: (x: (value: number) => number, y: number) =>
+        `<g><title>${escapeHtml(
+          `${label}: median ${format(stats.median)}, p25 ${format(
+            stats.p25
+          )}, p75 ${format(stats.p75)}, min ${format(stats.min)}, max ${format(
+            stats.max
+          )}`
+        )}</title>` +
+        `<line class="whisker" x1="${x(stats.min)}" x2="${x(
+          stats.max
+        )}" y1="${y}" y2="${y}"/>` +
+        `<rect class="box" x="${x(stats.p25)}" y="${y - 8}" width="${Math.max(
+          1,
+          x(stats.p75) - x(stats.p25)
+        ).toFixed(1)}" height="16"/>` +
+        `<line class="median" x1="${x(stats.median)}" x2="${x(
+          stats.median
+        )}" y1="${y - 8}" y2="${y + 8}"/></g>` +
+        samples
+          .map(
+            (sample) =>
+              `<circle class="sample" cx="${x(
+                sample.value
+              )}" cy="${y}" r="2.5"><title>${escapeHtml(
+                `Iteration ${sample.iteration}: ${format(sample.value)}`
+              )}</title></circle>`
+          )
+          .join(""),
     };
+  });
+  return renderSvgChart(rows, axisMax, (value) =>
+    unit === "seconds" ? `${value.toFixed(2)}s` : formatMetricValue(value, unit)
+  );
+}
 
-    if (metrics.appStartTimestamp) {
-      metrics.appStartTimestamp = normalizeTimestamp(metrics.appStartTimestamp);
-    }
+// Lifecycle events, custom markers and paired markers of one iteration on a
+// t=0 axis. Markers without a duration are drawn as a dot.
+function renderMarkerWaterfall(run: IterationMetrics): string {
+  const rows: Array<{
+    label: string;
+    kind: "lifecycle" | "custom" | "paired";
+    spans: Array<{ start: number; duration?: number }>;
+  }> = [
+    ...LIFECYCLE_EVENTS.map((event) => ({
+      label: LIFECYCLE_LABELS[event],
+      kind: "lifecycle" as const,
+      spans: run.lifecycle[event].occurrences.slice(0, 1),
+    })),
+    ...run.customMarkers.map((marker) => ({
+      label: marker.name,
+      kind: "custom" as const,
+      spans: marker.occurrences,
+    })),
+    ...run.pairedMarkers.map((pair) => ({
+      label: pair.name,
+      kind: "paired" as const,
+      spans: pair.occurrences ?? [],
+    })),
+  ]
+    .map((row) => ({
+      ...row,
+      spans: row.spans.flatMap((span) =>
+        span.timeFromStart !== undefined
+          ? [{ start: span.timeFromStart, duration: span.duration }]
+          : []
+      ),
+    }))
+    .filter((row) => row.spans.length > 0);
+  if (rows.length === 0) return "<p>No markers relative to t=0.</p>";
+
+  const axisMax = niceAxisMax(
+    Math.max(
+      ...rows.flatMap((row) =>
+        row.spans.map((span) => span.start + (span.duration ?? 0))
+      )
+    )
+  );
+  return renderSvgChart(
+    rows.map((row) => ({
+      label: row.label,
+      render: (x, y) =>
+        row.spans
+          .map((span) => {
+            const title = `<title>${escapeHtml(
+              `${row.label}: t=${span.start.toFixed(3)}s${
+                span.duration !== undefined
+                  ? `, ${span.duration.toFixed(3)}s`
+                  : ""
+              }`
+            )}</title>`;
+            return span.duration
+              ? `<rect class="${row.kind}" x="${x(span.start)}" y="${
+                  y - 7
+                }" width="${Math.max(
+                  2,
+                  x(span.start + span.duration) - x(span.start)
+                ).toFixed(1)}" height="14">${title}</rect>`
+              : `<circle class="${row.kind}" cx="${x(
+                  span.start
+                )}" cy="${y}" r="4">${title}</circle>`;
+          })
+          .join(""),
+    })),
+    axisMax,
+    (value) => `${value.toFixed(2)}s`
+  );
+}
 
-    if (metrics.activityCreateTimestamp) {
-      metrics.activityCreateTimestamp = normalizeTimestamp(
-        metrics.activityCreateTimestamp
+function renderRawDataTable(summary: SummaryReport): string {
+  const series = Object.entries(summary.metrics).filter(
+    ([, metric]) => metric.samples.length > 0
+  );
+  const iterations = [
+    ...new Set(
+      series.flatMap(([, metric]) =>
+        [...metric.samples, ...(metric.rejected ?? [])].map(
+          (sample) => sample.iteration
+        )
+      )
+    ),
+  ].sort((a, b) => a - b);
+
+  let table = `<input id="raw-filter" type="search" placeholder="Filter metrics">`;
+  table += `<table id="raw-data"><thead><tr><th>Metric</th>${iterations
+    .map((iteration) => `<th>Iteration ${iteration}</th>`)
+    .join("")}</tr></thead><tbody>`;
+  for (const [key, metric] of series) {
+    const cells = iterations.map((iteration) => {
+      const kept = metric.samples.find(
+        (sample) => sample.iteration === iteration
       );
-    }
-
-    if (metrics.activityStartTimestamp) {
-      metrics.activityStartTimestamp = normalizeTimestamp(
-        metrics.activityStartTimestamp
+      const rejected = metric.rejected?.find(
+        (sample) => sample.iteration === iteration
       );
-    }
+      if (kept) return `<td>${formatMetricValue(kept.value, metric.unit)}</td>`;
+      if (rejected) {
+        return `<td class="rejected" title="Rejected as an outlier">${formatMetricValue(
+          rejected.value,
+          metric.unit
+        )}</td>`;
+      }
+      return "<td></td>";
+    });
+    table += `<tr data-metric="${escapeHtml(
+      key.toLowerCase()
+    )}"><td>${escapeHtml(key)}</td>${cells.join("")}</tr>`;
+  }
+  return table + "</tbody></table>";
+}
 
-    if (metrics.activityResumeTimestamp) {
-      metrics.activityResumeTimestamp = normalizeTimestamp(
-        metrics.activityResumeTimestamp
-      );
-    }
+// Screenshots are embedded in the HTML report downscaled to at most this
+// width: sharp enough for the expanded view, a fraction of the size of a
+// full-resolution screencap.
+const THUMBNAIL_MAX_WIDTH_PX = 480;
 
-    if (metrics.activityDrawnTimestamp) {
-      metrics.activityDrawnTimestamp = normalizeTimestamp(
-        metrics.activityDrawnTimestamp
-      );
-    }
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
 
-    for (const marker of config.customMarkers) {
-      const timestampKey = `${marker}Timestamp`;
-      const relativeTimeKey = `timeTo${marker}`;
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
 
-      if (metrics[timestampKey]) {
-        metrics[timestampKey] = normalizeTimestamp(metrics[timestampKey]);
-      }
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
 
-      if (metrics[relativeTimeKey]) {
-        metrics[relativeTimeKey] = parseFloat(
-          metrics[relativeTimeKey].toFixed(3)
-        );
-      }
-    }
+// PNG image data is a zlib stream, which is what the "deflate" format of
+// the built-in (de)compression streams reads and writes.
+async function zlibTransform(
+  data: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const transformed = new Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(transformed).arrayBuffer());
+}
 
-    for (const pair of config.pairedMarkers) {
-      const startTimestampKey = `${pair.start}Timestamp`;
-      const endTimestampKey = `${pair.end}Timestamp`;
-      const durationKey = `${pair.name}Duration`;
-      const startRelativeKey = `timeTo${pair.start}`;
-      const endRelativeKey = `timeTo${pair.end}`;
-
-      if (metrics[startTimestampKey]) {
-        metrics[startTimestampKey] = normalizeTimestamp(
-          metrics[startTimestampKey]
-        );
-      }
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distLeft = Math.abs(estimate - left);
+  const distUp = Math.abs(estimate - up);
+  const distUpLeft = Math.abs(estimate - upLeft);
+  if (distLeft <= distUp && distLeft <= distUpLeft) return left;
+  return distUp <= distUpLeft ? up : upLeft;
+}
 
-      if (metrics[endTimestampKey]) {
-        metrics[endTimestampKey] = normalizeTimestamp(metrics[endTimestampKey]);
-      }
+// Downscales a screenshot by averaging square blocks of pixels, so the HTML
+// report doesn't carry every screencap at full resolution. Only decodes what
+// screencap writes (8-bit RGB or RGBA, not interlaced); anything else, or an
+// image already narrow enough, is returned unchanged. The thumbnail drops the
+// alpha channel, which screencap always leaves opaque.
+async function createThumbnail(png: Uint8Array): Promise<Uint8Array> {
+  if (!PNG_SIGNATURE.every((byte, index) => png[index] === byte)) return png;
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Uint8Array[] = [];
+  for (let offset = 8; offset + 8 <= png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      const [bitDepth, colorType, , , interlace] = data.subarray(8, 13);
+      if (bitDepth !== 8 || interlace !== 0) return png;
+      if (colorType === 2) channels = 3;
+      else if (colorType === 6) channels = 4;
+      else return png;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
 
-      if (metrics[durationKey]) {
-        metrics[durationKey] = parseFloat(metrics[durationKey].toFixed(3));
-      }
+  const factor = Math.ceil(width / THUMBNAIL_MAX_WIDTH_PX);
+  if (channels === 0 || factor <= 1) return png;
 
-      if (metrics[startRelativeKey]) {
-        metrics[startRelativeKey] = parseFloat(
-          metrics[startRelativeKey].toFixed(3)
-        );
-      }
+  const compressed = new Uint8Array(
+    idat.reduce((total, chunk) => total + chunk.length, 0)
+  );
+  idat.reduce((offset, chunk) => {
+    compressed.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  const raw = await zlibTransform(
+    compressed,
+    new DecompressionStream("deflate")
+  );
+
+  // Undo the per-row filters in place; each row is a filter type byte
+  // followed by the pixel bytes.
+  const stride = width * channels;
+  if (raw.length < height * (stride + 1)) return png;
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[out + x - channels] : 0;
+      const up = y > 0 ? pixels[out + x - stride] : 0;
+      const upLeft =
+        y > 0 && x >= channels ? pixels[out + x - stride - channels] : 0;
+      let predicted = 0;
+      if (filter === 1) predicted = left;
+      else if (filter === 2) predicted = up;
+      else if (filter === 3) predicted = (left + up) >> 1;
+      else if (filter === 4) predicted = paethPredictor(left, up, upLeft);
+      pixels[out + x] = (row[x] + predicted) & 0xff;
+    }
+  }
 
-      if (metrics[endRelativeKey]) {
-        metrics[endRelativeKey] = parseFloat(
-          metrics[endRelativeKey].toFixed(3)
+  const thumbWidth = Math.floor(width / factor);
+  const thumbHeight = Math.floor(height / factor);
+  const thumbStride = thumbWidth * 3 + 1;
+  const thumbRaw = new Uint8Array(thumbHeight * thumbStride);
+  for (let ty = 0; ty < thumbHeight; ty++) {
+    for (let tx = 0; tx < thumbWidth; tx++) {
+      for (let channel = 0; channel < 3; channel++) {
+        let sum = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          const rowStart = (ty * factor + dy) * stride;
+          for (let dx = 0; dx < factor; dx++) {
+            sum += pixels[rowStart + (tx * factor + dx) * channels + channel];
+          }
+        }
+        // Filter type 0 (none) stays in the first byte of each row.
+        thumbRaw[ty * thumbStride + 1 + tx * 3 + channel] = Math.round(
+          sum / (factor * factor)
         );
       }
     }
+  }
 
-    await writeMetricsToFile(metricsPath, metrics, config);
-  } catch (error) {
-    console.error(
-      `Error processing trace data: ${
-        error instanceof Error ? error.message : String(error)
-      }`
-    );
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, thumbWidth);
+  headerView.setUint32(4, thumbHeight);
+  header.set([8, 2, 0, 0, 0], 8);
+  const chunks: Array<[string, Uint8Array]> = [
+    ["IHDR", header],
+    ["IDAT", await zlibTransform(thumbRaw, new CompressionStream("deflate"))],
+    ["IEND", new Uint8Array(0)],
+  ];
+
+  const thumbnail = new Uint8Array(
+    8 + chunks.reduce((total, [, data]) => total + 12 + data.length, 0)
+  );
+  const thumbnailView = new DataView(thumbnail.buffer);
+  thumbnail.set(PNG_SIGNATURE);
+  let offset = 8;
+  for (const [type, data] of chunks) {
+    const typeAndData = new Uint8Array(4 + data.length);
+    typeAndData.set(new TextEncoder().encode(type));
+    typeAndData.set(data, 4);
+    thumbnailView.setUint32(offset, data.length);
+    thumbnail.set(typeAndData, offset + 4);
+    thumbnailView.setUint32(offset + 8 + data.length, crc32(typeAndData));
+    offset += 12 + data.length;
   }
+  return thumbnail;
 }
 
-async function writeMetricsToFile(
-  metricsFile: string,
-  metrics: Record<string, number>,
-  config: Config
-): Promise<void> {
-  let content = "=== Performance Metrics ===\n";
-  content += `App Package: ${config.appPackage}\n`;
-  content += `Run Mode: ${config.warmMode ? "Warm" : "Cold"}\n`;
-  content += `Date: ${new Date().toISOString()}\n\n`;
-
-  if (metrics.appStartTimestamp) {
-    content += `App Start Timestamp (t=0): ${metrics.appStartTimestamp.toFixed(
-      3
-    )} seconds (absolute time)\n\n`;
+// Screenshots are PNG thumbnails keyed by iteration, embedded as data URIs so
+// the file can be opened on its own.
+function renderHtmlReport(
+  summary: SummaryReport,
+  runs: IterationMetrics[],
+  screenshots: Map<number, Uint8Array>
+): string {
+  const title = `Performance Report: ${summary.appPackage}`;
+  let body = `<h1>${escapeHtml(title)}</h1><dl>`;
+  for (const [label, value] of [
+    ["Date", summary.date],
+    ["Activity", summary.appActivity],
+    [
+      "Device",
+      `${summary.device.model || "Unknown"} (Android ${
+        summary.device.androidVersion || "Unknown"
+      })`,
+    ],
+    ["Start Mode", formatRunMode(summary.mode)],
+    [
+      "Iterations",
+      `${summary.successfulIterations.length} of ${summary.iterations} successful`,
+    ],
+  ]) {
+    body += `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`;
+  }
+  body += "</dl>";
+
+  body += "<h2>Lifecycle Events</h2>";
+  body += renderBoxPlots(
+    summary,
+    LIFECYCLE_EVENTS.map((event) => [
+      LIFECYCLE_SUMMARY_KEYS[event],
+      LIFECYCLE_LABELS[event],
+    ])
+  );
+  if (summary.pairedMarkers.length > 0) {
+    body += "<h2>Paired Markers</h2>";
+    body += renderBoxPlots(
+      summary,
+      summary.pairedMarkers.map((pair) => [`${pair.name}_duration`, pair.name])
+    );
   }
 
-  content += "== App Lifecycle Events ==\n";
+  body += "<h2>Marker Waterfall by Iteration</h2>";
+  runs.forEach((run, index) => {
+    body += `<details${index === 0 ? " open" : ""}><summary>Iteration ${
+      run.iteration
+    }</summary>${renderMarkerWaterfall(run)}</details>`;
+  });
 
-  if (metrics.activityCreateTimestamp) {
-    content += `Activity Create: ${metrics.activityCreateTimestamp.toFixed(
-      3
-    )} seconds (absolute time)\n`;
-    if (metrics.timeToCreate) {
-      content += `  - Time from app start: ${metrics.timeToCreate.toFixed(
-        3
-      )} seconds\n`;
+  body += "<h2>Raw Data by Iteration</h2>";
+  body += renderRawDataTable(summary);
+
+  if (screenshots.size > 0) {
+    body += `<h2>Screenshots</h2><div class="screenshots">`;
+    for (const [iteration, png] of screenshots) {
+      // btoa needs a binary string; build it in chunks to stay under the
+      // argument limit of String.fromCharCode.
+      let binary = "";
+      for (let offset = 0; offset < png.length; offset += 0x8000) {
+        binary += String.fromCharCode(...png.subarray(offset, offset + 0x8000));
+      }
+      body += `<figure><img src="data:image/png;base64,${btoa(
+        binary
+      )}" alt="Screenshot of iteration ${iteration}"><figcaption>Iteration ${iteration}</figcaption></figure>`;
     }
+    body += "</div>";
   }
 
-  if (metrics.activityStartTimestamp) {
-    content += `Activity Start: ${metrics.activityStartTimestamp.toFixed(
-      3
-    )} seconds (absolute time)\n`;
-    if (metrics.timeToStart) {
-      content += `  - Time from app start: ${metrics.timeToStart.toFixed(
-        3
-      )} seconds\n`;
+  // The summary is embedded as-is for anyone who wants to dig further from
+  // the browser console; "<" is escaped so it cannot close the script tag.
+  const data = JSON.stringify(summary).replace(/</g, "\\u003c");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_REPORT_STYLE}</style>
+</head>
+<body>
+${body}
+<script type="application/json" id="summary-data">${data}</script>
+<script>${HTML_REPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+// The headline metrics that fit in a PR comment: lifecycle, launch and
+// startup totals, then each configured marker.
+function markdownMetricKeys(summary: SummaryReport): string[] {
+  return [
+    ...LIFECYCLE_EVENTS.map((event) => LIFECYCLE_SUMMARY_KEYS[event]),
+    "launch_total_time",
+    "startup_phases_total",
+    ...summary.customMarkers.map((marker) => `${marker}_relative`),
+    ...summary.pairedMarkers.map((pair) => `${pair.name}_duration`),
+    "trace_frames_janky_percent",
+    "frames_janky_percent",
+    "memory_total_pss",
+  ].filter((key) => summary.metrics[key]?.samples.length > 0);
+}
+
+function renderSummaryMarkdown(
+  summary: SummaryReport,
+  comparison?: ComparisonReport
+): string {
+  const cell = (value: string) => value.replace(/\|/g, "\\|");
+
+  let content = `### Performance: ${cell(summary.appPackage)}\n\n`;
+  content += `${summary.device.model || "Unknown"} (Android ${
+    summary.device.androidVersion || "Unknown"
+  }), ${formatRunMode(summary.mode)} start, ${
+    summary.successfulIterations.length
+  } of ${summary.iterations} iteration(s) successful`;
+  content += comparison
+    ? `, compared with \`${comparison.baselineDir}\`\n\n`
+    : "\n\n";
+
+  content += comparison
+    ? "| Metric | Median | p90 | n | Baseline | Delta | Verdict |\n|---|---:|---:|---:|---:|---:|---|\n"
+    : "| Metric | Median | p90 | n |\n|---|---:|---:|---:|\n";
+  for (const key of markdownMetricKeys(summary)) {
+    const { unit, stats } = summary.metrics[key];
+    let row = `| ${cell(key)} | ${formatMetricValue(
+      stats.median,
+      unit
+    )} | ${formatMetricValue(stats.p90, unit)} | ${stats.count} |`;
+    if (comparison) {
+      const metric = comparison.metrics.find(
+        (candidate) => candidate.name === key
+      );
+      row += metric
+        ? ` ${formatMetricValue(
+            metric.baseline.median,
+            unit
+          )} | ${formatMetricDelta(metric.delta, unit)}${
+            metric.percentChange !== undefined
+              ? ` (${
+                  metric.percentChange >= 0 ? "+" : ""
+                }${metric.percentChange.toFixed(1)}%)`
+              : ""
+          } | ${COMPARISON_VERDICT_LABELS[metric.verdict]} |`
+        : " | | |";
     }
+    content += `${row}\n`;
   }
 
-  if (metrics.activityResumeTimestamp) {
-    content += `Activity Resume: ${metrics.activityResumeTimestamp.toFixed(
-      3
-    )} seconds (absolute time)\n`;
-    if (metrics.timeToResume) {
-      content += `  - Time from app start: ${metrics.timeToResume.toFixed(
-        3
-      )} seconds\n`;
+  if (summary.budgets && summary.budgets.length > 0) {
+    const failed = summary.budgets.filter((budget) => budget.status !== "pass");
+    content += `\n**Budgets:** ${summary.budgets.length - failed.length} of ${
+      summary.budgets.length
+    } met\n`;
+    for (const budget of failed) {
+      content += `- ${cell(renderBudgetResult(budget))}\n`;
     }
   }
 
-  if (metrics.activityDrawnTimestamp) {
-    content += `Activity Fully Drawn: ${metrics.activityDrawnTimestamp.toFixed(
-      3
-    )} seconds (absolute time)\n`;
-    if (metrics.timeToFullyDrawn) {
-      content += `  - Time from app start: ${metrics.timeToFullyDrawn.toFixed(
-        3
-      )} seconds\n`;
+  const regressed = comparison?.metrics.filter(
+    (metric) => metric.verdict === "regressed"
+  );
+  if (regressed && regressed.length > 0) {
+    content += `\n**Regressed against the baseline:** ${regressed
+      .map((metric) => `\`${metric.name}\``)
+      .join(", ")}\n`;
+  }
+
+  return content;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per iteration and metric, rejected outliers included (and marked)
+// so spreadsheets see the same samples as the text report.
+function renderSummaryCsv(summary: SummaryReport): string {
+  const rows: Array<[number, string, number, MetricUnit, boolean]> = [];
+  for (const [key, metric] of Object.entries(summary.metrics)) {
+    for (const sample of metric.samples) {
+      rows.push([sample.iteration, key, sample.value, metric.unit, false]);
+    }
+    for (const sample of metric.rejected ?? []) {
+      rows.push([sample.iteration, key, sample.value, metric.unit, true]);
     }
   }
+  rows.sort((a, b) => a[0] - b[0]);
 
-  content += "\n== Custom Markers ==\n";
+  let content = "iteration,metric,value,unit,rejected\n";
+  for (const [iteration, key, value, unit, rejected] of rows) {
+    content += `${iteration},${csvField(key)},${value},${unit},${rejected}\n`;
+  }
+  return content;
+}
 
-  for (const marker of config.customMarkers) {
-    const markerTimestamp = metrics[`${marker}Timestamp`];
-    const timeToMarker = metrics[`timeTo${marker}`];
+function escapeXml(value: string): string {
+  return escapeHtml(value).replace(/&#39;/g, "&apos;");
+}
 
-    if (markerTimestamp) {
-      content += `${marker}:\n`;
-      content += `  - Absolute time: ${markerTimestamp.toFixed(3)} seconds\n`;
+// Budgets, marker expectations and the scenario as JUnit test cases. A marker
+// is expected in every successful iteration; budgets without data or with an
+// invalid limit fail, as they do for the exit code.
+function renderSummaryJunit(summary: SummaryReport): string {
+  const iterationsWith = (key: string) =>
+    new Set(
+      [
+        ...(summary.metrics[key]?.samples ?? []),
+        ...(summary.metrics[key]?.rejected ?? []),
+      ].map((sample) => sample.iteration)
+    );
+  const missingIn = (key: string) => {
+    const found = iterationsWith(key);
+    return summary.successfulIterations.filter(
+      (iteration) => !found.has(iteration)
+    );
+  };
 
-      if (timeToMarker) {
-        content += `  - Time from app start (t=0): ${timeToMarker.toFixed(
-          3
-        )} seconds\n`;
-      }
-    } else {
-      content += `${marker}: Not found in trace\n`;
+  const suites: Array<{
+    name: string;
+    cases: Array<{ name: string; failure?: { type: string; message: string } }>;
+  }> = [
+    {
+      name: "budgets",
+      cases: (summary.budgets ?? []).map((budget) => ({
+        name: `${budget.metric} ${budget.statistic}`,
+        failure:
+          budget.status === "pass"
+            ? undefined
+            : { type: budget.status, message: renderBudgetResult(budget) },
+      })),
+    },
+    {
+      name: "markers",
+      cases: [
+        ...summary.customMarkers.map((marker) => ({
+          name: `marker ${marker}`,
+          missing: missingIn(`${marker}_absolute`),
+        })),
+        ...summary.pairedMarkers.map((pair) => ({
+          name: `paired marker ${pair.name}`,
+          missing: missingIn(`${pair.name}_duration`),
+        })),
+      ].map(({ name, missing }) => ({
+        name,
+        failure:
+          missing.length > 0
+            ? {
+                type: "not_found",
+                message: `Not found in iteration(s) ${missing.join(", ")}`,
+              }
+            : undefined,
+      })),
+    },
+  ];
+  if (summary.scenario) {
+    // The steps are one test case; each expected marker is its own, so CI
+    // shows which one went missing.
+    const stepFailures = summary.scenarioStepFailures ?? [];
+    suites.push({
+      name: "scenario",
+      cases: [
+        {
+          name: `${summary.scenario} steps`,
+          failure:
+            stepFailures.length > 0
+              ? {
+                  type: "failed",
+                  message: `A step failed in iteration(s) ${stepFailures.join(
+                    ", "
+                  )}`,
+                }
+              : undefined,
+        },
+        ...Object.entries(summary.scenarioMissingMarkers ?? {}).map(
+          ([marker, missing]) => ({
+            name: `${summary.scenario} expected marker ${marker}`,
+            failure:
+              missing.length > 0
+                ? {
+                    type: "not_found",
+                    message: `Not found in iteration(s) ${missing.join(", ")}`,
+                  }
+                : undefined,
+          })
+        ),
+      ],
+    });
+  }
+
+  const count = (cases: Array<{ failure?: unknown }>) =>
+    `tests="${cases.length}" failures="${
+      cases.filter((testCase) => testCase.failure).length
+    }"`;
+  const allCases = suites.flatMap((suite) => suite.cases);
+
+  let content = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  content += `<testsuites name="${escapeXml(
+    `performance ${summary.appPackage}`
+  )}" ${count(allCases)}>\n`;
+  for (const suite of suites) {
+    content += `  <testsuite name="${suite.name}" ${count(
+      suite.cases
+    )} timestamp="${summary.date}">\n`;
+    for (const testCase of suite.cases) {
+      const name = `name="${escapeXml(testCase.name)}" classname="${
+        suite.name
+      }"`;
+      content += testCase.failure
+        ? `    <testcase ${name}>\n      <failure type="${
+            testCase.failure.type
+          }" message="${escapeXml(
+            testCase.failure.message
+          )}"/>\n    </testcase>\n`
+        : `    <testcase ${name}/>\n`;
     }
+    content += "  </testsuite>\n";
   }
+  content += "</testsuites>\n";
+  return content;
+}
 
-  if (config.pairedMarkers.length > 0) {
-    content += "\n== Paired Markers (Start/End) ==\n";
-    for (const pair of config.pairedMarkers) {
-      const startTimestamp = metrics[`${pair.start}Timestamp`];
-      const endTimestamp = metrics[`${pair.end}Timestamp`];
-      const duration = metrics[`${pair.name}Duration`];
-      const timeToStart = metrics[`timeTo${pair.start}`];
-      const timeToEnd = metrics[`timeTo${pair.end}`];
+const REPORT_EXPORTERS: Record<ReportFormat, ReportExporter> = {
+  markdown: { fileName: "summary_report.md", render: renderSummaryMarkdown },
+  csv: { fileName: "summary_report.csv", render: renderSummaryCsv },
+  junit: { fileName: "summary_report.junit.xml", render: renderSummaryJunit },
+};
 
-      content += `=== ${pair.name} ===\n`;
+const REPORT_FORMATS = Object.keys(REPORT_EXPORTERS) as ReportFormat[];
 
-      if (startTimestamp) {
-        content += `${pair.start}:\n`;
-        content += `  - Absolute time: ${startTimestamp.toFixed(3)} seconds\n`;
+function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as string[]).includes(value);
+}
 
-        if (timeToStart !== undefined) {
-          content += `  - Time from app start (t=0): ${timeToStart.toFixed(
-            3
-          )} seconds\n`;
-        }
-      } else {
-        content += `${pair.start}: Not found in trace\n`;
-      }
+async function generateSummaryReport(
+  config: Config,
+  deviceInfo: DeviceInfo,
+  runs: IterationMetrics[],
+  adaptive?: AdaptiveResult
+): Promise<SummaryReport> {
+  console.log("Generating summary report...");
+  const summaryPath = `${config.outputDir}/summary_report.txt`;
+  const summaryJsonPath = `${config.outputDir}/summary_report.json`;
+  const summaryHtmlPath = `${config.outputDir}/summary_report.html`;
+
+  const summary = buildSummaryReport(config, deviceInfo, runs, adaptive);
+
+  const screenshots = new Map<number, Uint8Array>();
+  for (const run of runs) {
+    // A failed screencap leaves no file, and the iteration no thumbnail. A
+    // corrupt one only costs its thumbnail, not the summary.
+    const screenshotPath = `${config.outputDir}/screenshot_${iterationLabel(
+      run.iteration
+    )}.png`;
+    try {
+      screenshots.set(
+        run.iteration,
+        await createThumbnail(await Deno.readFile(screenshotPath))
+      );
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) continue;
+      console.warn(
+        `Warning: Skipping thumbnail of ${screenshotPath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
 
-      if (endTimestamp) {
-        content += `${pair.end}:\n`;
-        content += `  - Absolute time: ${endTimestamp.toFixed(3)} seconds\n`;
+  await Deno.writeTextFile(summaryJsonPath, JSON.stringify(summary, null, 2));
+  await Deno.writeTextFile(summaryPath, renderSummaryText(summary));
+  await Deno.writeTextFile(
+    summaryHtmlPath,
+    renderHtmlReport(summary, runs, screenshots)
+  );
+  console.log(
+    `Summary report saved to ${summaryPath}, ${summaryJsonPath} and ${summaryHtmlPath}`
+  );
 
-        if (timeToEnd !== undefined) {
-          content += `  - Time from app start (t=0): ${timeToEnd.toFixed(
-            3
-          )} seconds\n`;
-        }
-      } else {
-        content += `${pair.end}: Not found in trace\n`;
+  if (config.reportFormats.length > 0) {
+    let comparison: ComparisonReport | undefined;
+    if (config.baselineDir) {
+      try {
+        comparison = buildComparisonReport(
+          config.baselineDir,
+          config.outputDir,
+          await loadSummaryReport(config.baselineDir),
+          summary,
+          DEFAULT_COMPARISON_ALPHA
+        );
+      } catch (error) {
+        console.warn(
+          `Could not load the baseline, reporting without deltas: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
       }
+    }
+    for (const format of config.reportFormats) {
+      const exporter = REPORT_EXPORTERS[format];
+      const exportPath = `${config.outputDir}/${exporter.fileName}`;
+      await Deno.writeTextFile(
+        exportPath,
+        exporter.render(summary, comparison)
+      );
+      console.log(`Saved ${format} report to ${exportPath}`);
+    }
+  }
 
-      if (startTimestamp && endTimestamp) {
-        const calculatedDuration = endTimestamp - startTimestamp;
-        content += `Duration of ${pair.name}: ${calculatedDuration.toFixed(
-          3
-        )} seconds\n`;
-      } else {
-        content += `Duration of ${pair.name}: Could not be calculated\n`;
-      }
+  return summary;
+}
 
-      content += "\n";
-    }
+const BOOTSTRAP_RESAMPLES = 10000;
+const COMPARISON_CONFIDENCE_LEVEL = 0.95;
+const DEFAULT_COMPARISON_ALPHA = 0.05;
+// Exact Mann-Whitney p-values are computed up to this many samples per side
+// (when there are no ties); larger samples use the normal approximation.
+const MANN_WHITNEY_EXACT_MAX_SAMPLES = 20;
+
+// Metric suffixes where neither direction is an improvement.
+const NEUTRAL_METRIC_PATTERNS = [
+  /^frames_total$/,
+  /^trace_frames_total$/,
+  /_occurrences$/,
+  /_counter_(min|max|last)$/,
+  /_thread_\w+_sleeping$/,
+];
+
+async function loadSummaryReport(dir: string): Promise<SummaryReport> {
+  const file = `${dir}/summary_report.json`;
+  const summary = JSON.parse(await Deno.readTextFile(file)) as SummaryReport;
+  if (summary.schemaVersion !== METRICS_SCHEMA_VERSION) {
+    throw new Error(
+      `${file}: schema version ${summary.schemaVersion} is not supported (expected ${METRICS_SCHEMA_VERSION})`
+    );
   }
+  return summary;
+}
 
-  await Deno.writeTextFile(metricsFile, content);
-  console.log(`Metrics saved to ${metricsFile}`);
+// Small seeded PRNG (mulberry32) so bootstrap intervals are reproducible
+// between runs of the comparison on the same data.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
-async function runPerformanceTests(config: Config) {
-  console.log("Starting performance tests...");
+function median(values: number[]): number {
+  return percentile(
+    [...values].sort((a, b) => a - b),
+    50
+  );
+}
 
-  if (!(await checkDeviceConnected())) {
-    console.error(
-      "No Android device connected. Please connect a device and try again."
+// Percentile bootstrap interval for the median of one sample.
+function bootstrapMedianInterval(
+  values: number[],
+  resamples: number,
+  level: number
+): { level: number; low: number; high: number } {
+  const random = createRandom(0x5eed);
+  const medians: number[] = [];
+  for (let i = 0; i < resamples; i++) {
+    medians.push(
+      median(values.map(() => values[Math.floor(random() * values.length)]))
     );
-    return;
   }
+  medians.sort((a, b) => a - b);
+
+  const tail = ((1 - level) / 2) * 100;
+  return {
+    level,
+    low: percentile(medians, tail),
+    high: percentile(medians, 100 - tail),
+  };
+}
+
+// Percentile bootstrap interval for the difference of medians
+// (candidate - baseline).
+function bootstrapMedianDifference(
+  baseline: number[],
+  candidate: number[],
+  resamples: number,
+  level: number
+): { level: number; low: number; high: number } {
+  const random = createRandom(0x5eed);
+  const resample = (values: number[]) =>
+    values.map(() => values[Math.floor(random() * values.length)]);
+
+  const differences: number[] = [];
+  for (let i = 0; i < resamples; i++) {
+    differences.push(median(resample(candidate)) - median(resample(baseline)));
+  }
+  differences.sort((a, b) => a - b);
+
+  const tail = ((1 - level) / 2) * 100;
+  return {
+    level,
+    low: percentile(differences, tail),
+    high: percentile(differences, 100 - tail),
+  };
+}
 
-  for (let i = 1; i <= config.iterations; i++) {
-    console.log(`\n=== Running test iteration ${i} ===`);
+// Standard normal CDF via the Abramowitz-Stegun erf approximation (7.1.26),
+// accurate to ~1e-7 which is plenty for a p-value.
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
 
-    if (!config.warmMode) {
-      if (!(await clearAppData(config.appPackage))) {
-        console.error("Failed to clear app data. Skipping iteration.");
+// Number of ways to reach each U statistic for samples of size m and n with
+// no ties; index u holds the count for U = u.
+function mannWhitneyDistribution(m: number, n: number): number[] {
+  // counts[i][j] is the distribution for sizes (i, j), built up row by row.
+  let previous: number[][] = [];
+  for (let i = 0; i <= m; i++) {
+    const current: number[][] = [];
+    for (let j = 0; j <= n; j++) {
+      if (i === 0 || j === 0) {
+        current.push([1]);
         continue;
       }
-    } else {
-      console.log("Warm mode: Skipping app data clearing");
+      // The largest value is either from the first sample (adds j to U) or
+      // from the second one (adds nothing).
+      const withFirst = previous[j];
+      const withSecond = current[j - 1];
+      const counts = new Array(i * j + 1).fill(0);
+      withFirst.forEach((count, u) => (counts[u + j] += count));
+      withSecond.forEach((count, u) => (counts[u] += count));
+      current.push(counts);
     }
+    previous = current;
+  }
+  return previous[n];
+}
 
-    const traceStarted = await startTrace(config);
-    if (!traceStarted) {
-      console.error("Failed to start tracing. Skipping iteration.");
-      continue;
+// Two-sided Mann-Whitney U test. Exact for small samples without ties,
+// otherwise the normal approximation with tie and continuity corrections.
+function mannWhitneyU(
+  baseline: number[],
+  candidate: number[]
+): { u: number; pValue: number; method: "exact" | "normal" } {
+  const m = baseline.length;
+  const n = candidate.length;
+  const pooled = [
+    ...baseline.map((value) => ({ value, fromBaseline: true })),
+    ...candidate.map((value) => ({ value, fromBaseline: false })),
+  ].sort((a, b) => a.value - b.value);
+
+  // Average ranks for ties, collecting tie group sizes for the correction.
+  const ranks: number[] = new Array(pooled.length);
+  const tieSizes: number[] = [];
+  for (let i = 0; i < pooled.length; ) {
+    let j = i;
+    while (j + 1 < pooled.length && pooled[j + 1].value === pooled[i].value) {
+      j++;
     }
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[k] = rank;
+    if (j > i) tieSizes.push(j - i + 1);
+    i = j + 1;
+  }
 
-    console.log("Launching app...");
-    const launchOutput = await launchApp(config);
-    console.log(launchOutput);
-
-    console.log(`Waiting for ${config.traceDuration} seconds...`);
-    await new Promise((resolve) =>
-      setTimeout(resolve, config.traceDuration * 1000)
-    );
+  const baselineRankSum = pooled.reduce(
+    (sum, entry, index) => (entry.fromBaseline ? sum + ranks[index] : sum),
+    0
+  );
+  const uBaseline = baselineRankSum - (m * (m + 1)) / 2;
+  const u = Math.min(uBaseline, m * n - uBaseline);
+
+  if (
+    tieSizes.length === 0 &&
+    m <= MANN_WHITNEY_EXACT_MAX_SAMPLES &&
+    n <= MANN_WHITNEY_EXACT_MAX_SAMPLES
+  ) {
+    const distribution = mannWhitneyDistribution(m, n);
+    const total = distribution.reduce((sum, count) => sum + count, 0);
+    let tail = 0;
+    for (let k = 0; k <= u; k++) tail += distribution[k];
+    return { u, pValue: Math.min(1, (2 * tail) / total), method: "exact" };
+  }
 
-    const screenshotPath = `${config.outputDir}/screenshot_${i}.png`;
-    await takeScreenshot(screenshotPath);
+  const total = m + n;
+  const tieTerm = tieSizes.reduce((sum, t) => sum + (t * t * t - t), 0);
+  const variance =
+    ((m * n) / 12) * (total + 1 - tieTerm / (total * (total - 1)));
+  if (variance <= 0) {
+    // Every value identical: no evidence of a difference at all.
+    return { u, pValue: 1, method: "normal" };
+  }
 
-    const traceStopped = await stopTrace(config);
-    if (!traceStopped) {
-      console.error("Failed to stop tracing. Skipping iteration.");
-      continue;
-    }
+  const z = (Math.abs(uBaseline - (m * n) / 2) - 0.5) / Math.sqrt(variance);
+  return {
+    u,
+    pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(0, z)))),
+    method: "normal",
+  };
+}
 
-    const localTracePath = `${config.outputDir}/trace_iteration_${i}.perfetto`;
-    const tracePulled = await pullTraceFile(config, localTracePath);
+function compareMetric(
+  name: string,
+  baseline: MetricSeries,
+  candidate: MetricSeries,
+  alpha: number
+): MetricComparison {
+  const baselineValues = baseline.samples.map((sample) => sample.value);
+  const candidateValues = candidate.samples.map((sample) => sample.value);
+  const baselineStats = calculateStats(baselineValues);
+  const candidateStats = calculateStats(candidateValues);
+  const delta = candidateStats.median - baselineStats.median;
+  const lowerIsBetter = !NEUTRAL_METRIC_PATTERNS.some((pattern) =>
+    pattern.test(name)
+  );
 
-    if (!tracePulled) {
-      console.error("Failed to pull trace file. Skipping iteration.");
-      continue;
-    }
+  const comparison: MetricComparison = {
+    name,
+    unit: baseline.unit,
+    lowerIsBetter,
+    baseline: baselineStats,
+    candidate: candidateStats,
+    delta,
+    percentChange:
+      baselineStats.median !== 0
+        ? (delta / Math.abs(baselineStats.median)) * 100
+        : undefined,
+    verdict: "insufficient_data",
+  };
 
-    await processTraceData(config, localTracePath, i);
+  // A single sample per side has no spread to test against.
+  if (baselineValues.length < 2 || candidateValues.length < 2) {
+    return comparison;
   }
 
-  await generateSummaryReport(config);
+  comparison.confidenceInterval = bootstrapMedianDifference(
+    baselineValues,
+    candidateValues,
+    BOOTSTRAP_RESAMPLES,
+    COMPARISON_CONFIDENCE_LEVEL
+  );
+  comparison.mannWhitney = mannWhitneyU(baselineValues, candidateValues);
+
+  const { low, high } = comparison.confidenceInterval;
+  const significant =
+    comparison.mannWhitney.pValue < alpha && (low > 0 || high < 0);
+  if (!significant || delta === 0) {
+    comparison.verdict = "inconclusive";
+  } else if (!lowerIsBetter) {
+    comparison.verdict = "changed";
+  } else {
+    comparison.verdict = delta < 0 ? "improved" : "regressed";
+  }
 
-  console.log("\n===== Performance measurement completed =====");
-  console.log(`Results saved to ${config.outputDir}`);
+  return comparison;
 }
 
-async function generateSummaryReport(config: Config): Promise<void> {
-  console.log("Generating summary report...");
-  const summaryPath = `${config.outputDir}/summary_report.txt`;
-
-  const allMetrics: Record<string, number[]> = {};
-  const metricsFiles: string[] = [];
-
-  for (let i = 1; i <= config.iterations; i++) {
-    metricsFiles.push(`${config.outputDir}/metrics_${i}.txt`);
+function buildComparisonReport(
+  baselineDir: string,
+  candidateDir: string,
+  baseline: SummaryReport,
+  candidate: SummaryReport,
+  alpha: number
+): ComparisonReport {
+  const warnings: string[] = [];
+  if (baseline.appPackage !== candidate.appPackage) {
+    warnings.push(
+      `App package differs: ${baseline.appPackage} vs ${candidate.appPackage}`
+    );
+  }
+  if (baseline.mode !== candidate.mode) {
+    warnings.push(`Run mode differs: ${baseline.mode} vs ${candidate.mode}`);
+  }
+  if (baseline.device.model !== candidate.device.model) {
+    warnings.push(
+      `Device differs: ${baseline.device.model ?? "unknown"} vs ${
+        candidate.device.model ?? "unknown"
+      }`
+    );
   }
 
-  for (const file of metricsFiles) {
-    try {
-      const content = await Deno.readTextFile(file);
-
-      for (const marker of config.customMarkers) {
-        const markerTimeMatch = content.match(
-          new RegExp(`${marker}:\\s*\\n\\s*- Absolute time: ([0-9.]+) seconds`)
-        );
-        const timeFromStartMatch = content.match(
-          new RegExp(
-            `${marker}:.*\\n.*\\n\\s*- Time from app start \\(t=0\\): ([0-9.]+) seconds`
-          )
-        );
+  const metrics: MetricComparison[] = [];
+  for (const [name, series] of Object.entries(baseline.metrics)) {
+    // Absolute marker timestamps are time since boot; comparing them across
+    // runs is meaningless.
+    if (name.endsWith("_absolute")) continue;
 
-        if (markerTimeMatch) {
-          const markerTime = parseFloat(markerTimeMatch[1]);
-          if (!allMetrics[`${marker}_absolute`]) {
-            allMetrics[`${marker}_absolute`] = [];
-          }
-          allMetrics[`${marker}_absolute`].push(markerTime);
-        }
+    const other = candidate.metrics[name];
+    if (!other || other.samples.length === 0 || series.samples.length === 0) {
+      continue;
+    }
+    metrics.push(compareMetric(name, series, other, alpha));
+  }
 
-        if (timeFromStartMatch) {
-          const timeFromStart = parseFloat(timeFromStartMatch[1]);
-          if (!allMetrics[`${marker}_relative`]) {
-            allMetrics[`${marker}_relative`] = [];
-          }
-          allMetrics[`${marker}_relative`].push(timeFromStart);
-        }
-      }
+  const onlyIn = (from: SummaryReport, to: SummaryReport) =>
+    Object.keys(from.metrics).filter(
+      (name) => !name.endsWith("_absolute") && !(name in to.metrics)
+    );
+  const missingInCandidate = onlyIn(baseline, candidate);
+  if (missingInCandidate.length > 0) {
+    warnings.push(
+      `Only in baseline (not compared): ${missingInCandidate.join(", ")}`
+    );
+  }
+  const missingInBaseline = onlyIn(candidate, baseline);
+  if (missingInBaseline.length > 0) {
+    warnings.push(
+      `Only in candidate (not compared): ${missingInBaseline.join(", ")}`
+    );
+  }
 
-      for (const pair of config.pairedMarkers) {
-        const startTimeMatch = content.match(
-          new RegExp(
-            `${pair.start}:\\s*\\n\\s*- Absolute time: ([0-9.]+) seconds`
-          )
-        );
-        const startFromAppMatch = content.match(
-          new RegExp(
-            `${pair.start}:.*\\n.*\\n\\s*- Time from app start \\(t=0\\): ([0-9.]+) seconds`
-          )
-        );
+  return {
+    schemaVersion: METRICS_SCHEMA_VERSION,
+    date: new Date().toISOString(),
+    baselineDir,
+    candidateDir,
+    alpha,
+    bootstrapResamples: BOOTSTRAP_RESAMPLES,
+    warnings,
+    metrics,
+  };
+}
 
-        if (startTimeMatch) {
-          const startTime = parseFloat(startTimeMatch[1]);
-          if (!allMetrics[`${pair.start}_absolute`]) {
-            allMetrics[`${pair.start}_absolute`] = [];
-          }
-          allMetrics[`${pair.start}_absolute`].push(startTime);
-        }
+function formatMetricDelta(value: number, unit: MetricUnit): string {
+  const formatted = formatMetricValue(Math.abs(value), unit);
+  return `${value < 0 ? "-" : "+"}${formatted}`;
+}
 
-        if (startFromAppMatch) {
-          const startFromApp = parseFloat(startFromAppMatch[1]);
-          if (!allMetrics[`${pair.start}_relative`]) {
-            allMetrics[`${pair.start}_relative`] = [];
-          }
-          allMetrics[`${pair.start}_relative`].push(startFromApp);
-        }
+const COMPARISON_VERDICT_LABELS: Record<ComparisonVerdict, string> = {
+  improved: "IMPROVED",
+  regressed: "REGRESSED",
+  changed: "CHANGED",
+  inconclusive: "inconclusive",
+  insufficient_data: "insufficient data",
+};
+
+function renderComparisonText(report: ComparisonReport): string {
+  let content = "===== Performance Comparison Report =====\n";
+  content += `Date: ${report.date}\n`;
+  content += `Baseline: ${report.baselineDir}\n`;
+  content += `Candidate: ${report.candidateDir}\n`;
+  content += `Significance level: ${report.alpha} (Mann-Whitney U, ${
+    report.bootstrapResamples
+  } bootstrap resamples for the ${Math.round(
+    COMPARISON_CONFIDENCE_LEVEL * 100
+  )}% CI)\n\n`;
+
+  if (report.warnings.length > 0) {
+    content += "== Warnings ==\n";
+    for (const warning of report.warnings) content += `- ${warning}\n`;
+    content += "\n";
+  }
 
-        const endTimeMatch = content.match(
-          new RegExp(
-            `${pair.end}:\\s*\\n\\s*- Absolute time: ([0-9.]+) seconds`
-          )
-        );
-        const endFromAppMatch = content.match(
-          new RegExp(
-            `${pair.end}:.*\\n.*\\n\\s*- Time from app start \\(t=0\\): ([0-9.]+) seconds`
-          )
-        );
+  const counts = report.metrics.reduce((acc, metric) => {
+    acc[metric.verdict] = (acc[metric.verdict] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ComparisonVerdict, number>>);
+  content += "== Verdict ==\n";
+  for (const verdict of Object.keys(
+    COMPARISON_VERDICT_LABELS
+  ) as ComparisonVerdict[]) {
+    if (counts[verdict]) {
+      content += `${COMPARISON_VERDICT_LABELS[verdict]}: ${counts[verdict]}\n`;
+    }
+  }
+  content += "\n";
+
+  content += "== Metrics ==\n";
+  for (const metric of report.metrics) {
+    content += `${metric.name}: ${COMPARISON_VERDICT_LABELS[metric.verdict]}\n`;
+    content += `  - Baseline median: ${formatMetricValue(
+      metric.baseline.median,
+      metric.unit
+    )} (n=${metric.baseline.count})\n`;
+    content += `  - Candidate median: ${formatMetricValue(
+      metric.candidate.median,
+      metric.unit
+    )} (n=${metric.candidate.count})\n`;
+    content += `  - Delta: ${formatMetricDelta(metric.delta, metric.unit)}`;
+    if (metric.percentChange !== undefined) {
+      content += ` (${
+        metric.percentChange >= 0 ? "+" : ""
+      }${metric.percentChange.toFixed(1)}%)`;
+    }
+    content += "\n";
+    if (metric.confidenceInterval) {
+      const { level, low, high } = metric.confidenceInterval;
+      content += `  - ${Math.round(level * 100)}% CI: [${formatMetricDelta(
+        low,
+        metric.unit
+      )}, ${formatMetricDelta(high, metric.unit)}]\n`;
+    }
+    if (metric.mannWhitney) {
+      content += `  - Mann-Whitney U: ${
+        metric.mannWhitney.u
+      }, p = ${metric.mannWhitney.pValue.toFixed(4)} (${
+        metric.mannWhitney.method
+      })\n`;
+    }
+    content += "\n";
+  }
 
-        if (endTimeMatch) {
-          const endTime = parseFloat(endTimeMatch[1]);
-          if (!allMetrics[`${pair.end}_absolute`]) {
-            allMetrics[`${pair.end}_absolute`] = [];
-          }
-          allMetrics[`${pair.end}_absolute`].push(endTime);
-        }
+  return content;
+}
 
-        if (endFromAppMatch) {
-          const endFromApp = parseFloat(endFromAppMatch[1]);
-          if (!allMetrics[`${pair.end}_relative`]) {
-            allMetrics[`${pair.end}_relative`] = [];
-          }
-          allMetrics[`${pair.end}_relative`].push(endFromApp);
-        }
+async function compareRuns(
+  baselineDir: string,
+  candidateDir: string,
+  outputDir: string,
+  alpha: number
+): Promise<void> {
+  console.log(`Comparing ${candidateDir} against ${baselineDir}...`);
+  const report = buildComparisonReport(
+    baselineDir,
+    candidateDir,
+    await loadSummaryReport(baselineDir),
+    await loadSummaryReport(candidateDir),
+    alpha
+  );
 
-        const durationMatch = content.match(
-          new RegExp(`Duration of ${pair.name}: ([0-9.]+) seconds`)
-        );
-        if (durationMatch) {
-          const duration = parseFloat(durationMatch[1]);
-          if (!allMetrics[`${pair.name}_duration`]) {
-            allMetrics[`${pair.name}_duration`] = [];
-          }
-          allMetrics[`${pair.name}_duration`].push(duration);
-        }
-      }
+  const text = renderComparisonText(report);
+  await Deno.mkdir(outputDir, { recursive: true });
+  await Deno.writeTextFile(
+    `${outputDir}/comparison_report.json`,
+    JSON.stringify(report, null, 2)
+  );
+  await Deno.writeTextFile(`${outputDir}/comparison_report.txt`, text);
 
-      const createMatch = content.match(/Activity Create: ([0-9.]+) seconds/);
-      const startMatch = content.match(/Activity Start: ([0-9.]+) seconds/);
-      const resumeMatch = content.match(/Activity Resume: ([0-9.]+) seconds/);
-      const drawnMatch = content.match(
-        /Activity Fully Drawn: ([0-9.]+) seconds/
-      );
+  console.log(text);
+  console.log(
+    `Comparison report saved to ${outputDir}/comparison_report.txt and ${outputDir}/comparison_report.json`
+  );
+}
 
-      if (createMatch) {
-        if (!allMetrics.activity_create) allMetrics.activity_create = [];
-        allMetrics.activity_create.push(parseFloat(createMatch[1]));
-      }
+function deviceOutputDir(outputDir: string, serial: string): string {
+  return `${outputDir}/${serial.replace(/[^A-Za-z0-9._-]/g, "_")}`;
+}
 
-      if (startMatch) {
-        if (!allMetrics.activity_start) allMetrics.activity_start = [];
-        allMetrics.activity_start.push(parseFloat(startMatch[1]));
-      }
+async function buildDeviceComparisonReport(
+  config: Config,
+  runs: DeviceRun[]
+): Promise<DeviceComparisonReport> {
+  const report: DeviceComparisonReport = {
+    schemaVersion: METRICS_SCHEMA_VERSION,
+    date: new Date().toISOString(),
+    appPackage: config.appPackage,
+    devices: runs,
+    metrics: {},
+  };
 
-      if (resumeMatch) {
-        if (!allMetrics.activity_resume) allMetrics.activity_resume = [];
-        allMetrics.activity_resume.push(parseFloat(resumeMatch[1]));
-      }
+  for (const run of runs) {
+    // Whatever summary is in its directory is from an earlier run.
+    if (run.error) continue;
 
-      if (drawnMatch) {
-        if (!allMetrics.activity_drawn) allMetrics.activity_drawn = [];
-        allMetrics.activity_drawn.push(parseFloat(drawnMatch[1]));
-      }
+    let summary: SummaryReport;
+    try {
+      summary = await loadSummaryReport(run.outputDir);
     } catch (error) {
       console.error(
-        `Error reading metrics file ${file}: ${
+        `No summary for device ${run.serial}: ${
           error instanceof Error ? error.message : String(error)
         }`
       );
+      continue;
     }
-  }
 
-  let content = "===== Performance Summary Report =====\n";
-  content += `Date: ${new Date().toISOString()}\n`;
-  content += `App Package: ${config.appPackage}\n`;
-  content += `App Activity: ${
-    config.appActivity || `${config.appPackage}.MainActivity`
-  }\n`;
-  content += `Test Iterations: ${config.iterations}\n`;
-  content += `Run Mode: ${config.warmMode ? "Warm" : "Cold"}\n\n`;
-
-  const deviceInfo = await getDeviceInfo();
-  content += `Device Model: ${deviceInfo.model || "Unknown"}\n`;
-  content += `Android Version: ${deviceInfo.androidVersion || "Unknown"}\n\n`;
-
-  function calculateStats(values: number[]): {
-    min: number;
-    max: number;
-    avg: number;
-    median: number;
-  } {
-    if (!values || values.length === 0) {
-      return { min: 0, max: 0, avg: 0, median: 0 };
-    }
-
-    const sortedValues = [...values].sort((a, b) => a - b);
-    const min = sortedValues[0];
-    const max = sortedValues[sortedValues.length - 1];
-    const avg =
-      sortedValues.reduce((sum, val) => sum + val, 0) / sortedValues.length;
-
-    let median: number;
-    const mid = Math.floor(sortedValues.length / 2);
-    if (sortedValues.length % 2 === 0) {
-      median = (sortedValues[mid - 1] + sortedValues[mid]) / 2;
-    } else {
-      median = sortedValues[mid];
+    run.device = summary.device;
+    run.successfulIterations = summary.successfulIterations;
+    for (const [name, metric] of Object.entries(summary.metrics)) {
+      if (name.endsWith("_absolute") || metric.samples.length === 0) continue;
+      report.metrics[name] ??= { unit: metric.unit, devices: {} };
+      report.metrics[name].devices[run.serial] = {
+        count: metric.stats.count,
+        median: metric.stats.median,
+        p90: metric.stats.p90,
+        cv: metric.stats.cv,
+      };
     }
-
-    return { min, max, avg, median };
-  }
-
-  content += "== App Lifecycle Events ==\n";
-
-  if (allMetrics.activity_create && allMetrics.activity_create.length > 0) {
-    const stats = calculateStats(allMetrics.activity_create);
-    content += "Activity Create:\n";
-    content += `  - Min: ${stats.min.toFixed(3)} seconds\n`;
-    content += `  - Max: ${stats.max.toFixed(3)} seconds\n`;
-    content += `  - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-    content += `  - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-  }
-
-  if (allMetrics.activity_start && allMetrics.activity_start.length > 0) {
-    const stats = calculateStats(allMetrics.activity_start);
-    content += "Activity Start:\n";
-    content += `  - Min: ${stats.min.toFixed(3)} seconds\n`;
-    content += `  - Max: ${stats.max.toFixed(3)} seconds\n`;
-    content += `  - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-    content += `  - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-  }
-
-  if (allMetrics.activity_resume && allMetrics.activity_resume.length > 0) {
-    const stats = calculateStats(allMetrics.activity_resume);
-    content += "Activity Resume:\n";
-    content += `  - Min: ${stats.min.toFixed(3)} seconds\n`;
-    content += `  - Max: ${stats.max.toFixed(3)} seconds\n`;
-    content += `  - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-    content += `  - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-  }
-
-  if (allMetrics.activity_drawn && allMetrics.activity_drawn.length > 0) {
-    const stats = calculateStats(allMetrics.activity_drawn);
-    content += "Activity Fully Drawn:\n";
-    content += `  - Min: ${stats.min.toFixed(3)} seconds\n`;
-    content += `  - Max: ${stats.max.toFixed(3)} seconds\n`;
-    content += `  - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-    content += `  - Median: ${stats.median.toFixed(3)} seconds\n\n`;
   }
 
-  content += "== Custom Markers ==\n";
-  for (const marker of config.customMarkers) {
-    content += `=== ${marker} ===\n`;
-
-    if (
-      allMetrics[`${marker}_absolute`] &&
-      allMetrics[`${marker}_absolute`].length > 0
-    ) {
-      const stats = calculateStats(allMetrics[`${marker}_absolute`]);
-      content += "Absolute Time:\n";
-      content += `  - Min: ${stats.min.toFixed(3)} seconds\n`;
-      content += `  - Max: ${stats.max.toFixed(3)} seconds\n`;
-      content += `  - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-      content += `  - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-    } else {
-      content += "Absolute Time: Not found in traces\n\n";
-    }
+  return report;
+}
 
-    if (
-      allMetrics[`${marker}_relative`] &&
-      allMetrics[`${marker}_relative`].length > 0
-    ) {
-      const stats = calculateStats(allMetrics[`${marker}_relative`]);
-      content += "Time from App Start (t=0):\n";
-      content += `  - Min: ${stats.min.toFixed(3)} seconds\n`;
-      content += `  - Max: ${stats.max.toFixed(3)} seconds\n`;
-      content += `  - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-      content += `  - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-    } else {
-      content += "Time from App Start: Not found in traces\n\n";
-    }
+function renderDeviceComparisonText(report: DeviceComparisonReport): string {
+  const deviceLabel = (run: DeviceRun) =>
+    run.device?.model ? `${run.serial} (${run.device.model})` : run.serial;
+
+  let content = "===== Device Comparison Report =====\n";
+  content += `Date: ${report.date}\n`;
+  content += `App Package: ${report.appPackage}\n\n`;
+
+  content += "== Devices ==\n";
+  for (const run of report.devices) {
+    content += `${deviceLabel(run)}: Android ${
+      run.device?.androidVersion ?? "Unknown"
+    }, ${
+      run.successfulIterations?.length ?? 0
+    } successful iteration(s), exit code ${run.exitCode}${
+      run.error ? ` (${run.error})` : ""
+    }, results in ${run.outputDir}\n`;
   }
-
-  if (config.pairedMarkers.length > 0) {
-    content += "== Paired Markers ==\n";
-    for (const pair of config.pairedMarkers) {
-      content += `=== ${pair.name} ===\n`;
-
-      content += `${pair.start}:\n`;
-      if (
-        allMetrics[`${pair.start}_absolute`] &&
-        allMetrics[`${pair.start}_absolute`].length > 0
-      ) {
-        const stats = calculateStats(allMetrics[`${pair.start}_absolute`]);
-        content += "  Absolute Time:\n";
-        content += `    - Min: ${stats.min.toFixed(3)} seconds\n`;
-        content += `    - Max: ${stats.max.toFixed(3)} seconds\n`;
-        content += `    - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-        content += `    - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-      } else {
-        content += "  Absolute Time: Not found in traces\n\n";
-      }
-
-      if (
-        allMetrics[`${pair.start}_relative`] &&
-        allMetrics[`${pair.start}_relative`].length > 0
-      ) {
-        const stats = calculateStats(allMetrics[`${pair.start}_relative`]);
-        content += "  Time from App Start (t=0):\n";
-        content += `    - Min: ${stats.min.toFixed(3)} seconds\n`;
-        content += `    - Max: ${stats.max.toFixed(3)} seconds\n`;
-        content += `    - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-        content += `    - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-      } else {
-        content += "  Time from App Start: Not found in traces\n\n";
-      }
-
-      content += `${pair.end}:\n`;
-      if (
-        allMetrics[`${pair.end}_absolute`] &&
-        allMetrics[`${pair.end}_absolute`].length > 0
-      ) {
-        const stats = calculateStats(allMetrics[`${pair.end}_absolute`]);
-        content += "  Absolute Time:\n";
-        content += `    - Min: ${stats.min.toFixed(3)} seconds\n`;
-        content += `    - Max: ${stats.max.toFixed(3)} seconds\n`;
-        content += `    - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-        content += `    - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-      } else {
-        content += "  Absolute Time: Not found in traces\n\n";
-      }
-
-      if (
-        allMetrics[`${pair.end}_relative`] &&
-        allMetrics[`${pair.end}_relative`].length > 0
-      ) {
-        const stats = calculateStats(allMetrics[`${pair.end}_relative`]);
-        content += "  Time from App Start (t=0):\n";
-        content += `    - Min: ${stats.min.toFixed(3)} seconds\n`;
-        content += `    - Max: ${stats.max.toFixed(3)} seconds\n`;
-        content += `    - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-        content += `    - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-      } else {
-        content += "  Time from App Start: Not found in traces\n\n";
+  content += "\n";
+
+  content += "== Metrics (median / p90) ==\n";
+  for (const [name, metric] of Object.entries(report.metrics)) {
+    content += `${name}:\n`;
+    const medians = Object.values(metric.devices).map((d) => d.median);
+    const fastest = Math.min(...medians);
+    for (const run of report.devices) {
+      const stats = metric.devices[run.serial];
+      if (!stats) continue;
+
+      content += `  - ${deviceLabel(run)}: ${formatMetricValue(
+        stats.median,
+        metric.unit
+      )} / ${formatMetricValue(stats.p90, metric.unit)} (n=${stats.count}`;
+      if (stats.cv !== undefined) {
+        content += `, CV ${(stats.cv * 100).toFixed(1)}%`;
       }
-
-      content += `Duration (${pair.end} - ${pair.start}):\n`;
       if (
-        allMetrics[`${pair.name}_duration`] &&
-        allMetrics[`${pair.name}_duration`].length > 0
+        isTimingMetric(name, metric) &&
+        medians.length > 1 &&
+        fastest > 0 &&
+        stats.median > fastest
       ) {
-        const stats = calculateStats(allMetrics[`${pair.name}_duration`]);
-        content += `  - Min: ${stats.min.toFixed(3)} seconds\n`;
-        content += `  - Max: ${stats.max.toFixed(3)} seconds\n`;
-        content += `  - Avg: ${stats.avg.toFixed(3)} seconds\n`;
-        content += `  - Median: ${stats.median.toFixed(3)} seconds\n\n`;
-      } else {
-        content += "  Duration: Could not be calculated\n\n";
+        content += `, +${(((stats.median - fastest) / fastest) * 100).toFixed(
+          1
+        )}% vs fastest`;
       }
+      content += ")\n";
     }
   }
 
-  content += "== Raw Data by Iteration ==\n";
-  for (const key in allMetrics) {
-    if (allMetrics[key] && allMetrics[key].length > 0) {
-      content += `${key}:\n`;
-      for (let i = 0; i < allMetrics[key].length; i++) {
-        content += `  - Iteration ${i + 1}: ${allMetrics[key][i].toFixed(
-          3
-        )} seconds\n`;
-      }
-      content += "\n";
-    }
+  return content;
+}
+
+// Measures every connected device in parallel, each into its own
+// subdirectory, then writes a report comparing them. Returns the worst exit
+// code: a failed run outranks a budget violation.
+async function runOnAllDevices(config: Config): Promise<number> {
+  const serials = await listConnectedDevices();
+  if (serials.length === 0) {
+    console.error("No Android device connected.");
+    return EXIT_FAILURE;
   }
+  console.log(`Measuring ${serials.length} device(s): ${serials.join(", ")}`);
+
+  // A device that throws counts as failed without taking the other devices'
+  // results down with it.
+  const runs: DeviceRun[] = await Promise.all(
+    serials.map(async (serial) => {
+      const outputDir = deviceOutputDir(config.outputDir, serial);
+      try {
+        await Deno.mkdir(outputDir, { recursive: true });
+        const exitCode = await runPerformanceTests({
+          ...config,
+          serial,
+          outputDir,
+        });
+        return { serial, outputDir, exitCode };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Measuring device ${serial} failed: ${message}`);
+        return { serial, outputDir, exitCode: EXIT_FAILURE, error: message };
+      }
+    })
+  );
 
-  await Deno.writeTextFile(summaryPath, content);
-  console.log(`Summary report saved to ${summaryPath}`);
+  const report = await buildDeviceComparisonReport(config, runs);
+  const jsonPath = `${config.outputDir}/devices_summary.json`;
+  const textPath = `${config.outputDir}/devices_summary.txt`;
+  await Deno.writeTextFile(jsonPath, JSON.stringify(report, null, 2));
+  await Deno.writeTextFile(textPath, renderDeviceComparisonText(report));
+  console.log(`Device comparison saved to ${textPath} and ${jsonPath}`);
+
+  const exitCodes = runs.map((run) => run.exitCode);
+  if (exitCodes.includes(EXIT_FAILURE)) return EXIT_FAILURE;
+  if (exitCodes.includes(EXIT_BUDGET_VIOLATION)) return EXIT_BUDGET_VIOLATION;
+  return EXIT_SUCCESS;
 }
 
 function printUsage() {
   console.log(`
 Usage: deno run --allow-run --allow-read --allow-write --allow-env measure_performance.ts [options]
+       deno run --allow-read --allow-write --allow-env measure_performance.ts compare <baseline-dir> <candidate-dir> [options]
 
 Options:
   -p, --package <package>       App package name
@@ -1103,9 +6898,52 @@ Options:
   --trace-duration <seconds>    Duration of trace capture in seconds
   -o, --output <directory>      Output directory for trace files
   -m, --markers-config <file>   Path to markers configuration JSON file
-  -w, --warm                    Run in warm mode (don't clear app data)
+  -s, --start-mode <mode>       Start mode: cold, warm or hot (default: cold)
+  -w, --warm                    Shorthand for --start-mode warm
+  --no-clear-data               Cold mode: keep app data between iterations
+  --drop-caches                 Cold mode: drop page caches before launch
+                                (rooted devices and emulators only)
+  --outliers <method>           Outlier rejection in the summary: none, iqr
+                                or mad (default: none)
+  --warmup <number>             Warm-up iterations to run first and exclude
+                                from the summary (default: 0)
+  --adaptive <metric>           Keep iterating until the confidence interval
+                                of this metric's median is narrow enough
+  --target-ci <width>           Adaptive target CI width, e.g. 5% or 20ms
+                                (default: 5%)
+  --max-iterations <number>     Adaptive iteration cap (default: 30)
+  --scenario <file>             Scenario JSON with steps to run after launch
+  --stop-early                  Stop the trace once every paired marker's end
+                                marker has been seen (--trace-duration becomes
+                                the timeout)
+  --done-marker <marker>        Stop the trace once this marker has been seen
+                                (can be repeated; implies --stop-early)
+  --stabilize                   Disable animations, keep the screen on, pin
+                                CPU frequencies (root) and wait for the CPU
+                                to go idle before each launch
+  --max-cpu-load <load>         Stabilize: 1-minute load average per core to
+                                wait for (default: ${DEFAULT_MAX_CPU_LOAD_PER_CORE})
+  --memory-at-markers           Also collect dumpsys meminfo when each paired
+                                marker's end marker appears
+  --long-task-ui <ms>           Long task threshold on the UI thread
+                                (default: ${DEFAULT_LONG_TASK_THRESHOLDS_MS.main})
+  --long-task-js <ms>           Long task threshold on mqt_js (default: ${DEFAULT_LONG_TASK_THRESHOLDS_MS.mqt_js})
+  --report-format <format>      Also write the summary as markdown, csv or
+                                junit (can be repeated or comma-separated)
+  --baseline <directory>        Earlier run to show deltas against in the
+                                markdown report
+  --chrome-trace                Also convert each trace to Chrome Trace Event
+                                JSON (trace_iteration_N.json)
+  --serial <serial>             adb serial of the device to measure
+  --all-devices                 Measure every connected device in parallel,
+                                each into its own output subdirectory
   -e, --env <file>              Custom environment file
   -h, --help                    Show this help message
+
+Compare options:
+  -o, --output <directory>      Where to write the comparison report
+                                (default: the candidate directory)
+  --alpha <number>              Significance level (default: 0.05)
 `);
 }
 
@@ -1155,11 +6993,10 @@ async function loadEnvConfig(
   return config;
 }
 
-async function loadMarkersConfig(configPath: string = "markers.json"): Promise<{
-  customMarkers: string[];
-  pairedMarkers: PairedMarker[];
-}> {
-  const defaultConfig = {
+async function loadMarkersConfig(
+  configPath: string = "markers.json"
+): Promise<MarkersConfig> {
+  const defaultConfig: MarkersConfig = {
     customMarkers: [
       "TEST_EVENT_MANUAL",
       "app_js_initialized",
@@ -1177,15 +7014,14 @@ async function loadMarkersConfig(configPath: string = "markers.json"): Promise<{
         name: "article_load",
       },
     ],
+    counters: [],
+    budgets: [],
   };
 
+  let config;
   try {
     const fileContent = await Deno.readTextFile(configPath);
-    const config = JSON.parse(fileContent);
-    return {
-      customMarkers: config.customMarkers || defaultConfig.customMarkers,
-      pairedMarkers: config.pairedMarkers || defaultConfig.pairedMarkers,
-    };
+    config = JSON.parse(fileContent);
   } catch (error) {
     console.warn(
       `Warning: Could not load markers config from ${configPath}: ${
@@ -1195,9 +7031,77 @@ async function loadMarkersConfig(configPath: string = "markers.json"): Promise<{
     console.warn("Using default markers configuration");
     return defaultConfig;
   }
+
+  // An unknown aggregation or a non-positive nth would silently leave the
+  // pair without a duration, so they fail the run instead.
+  const pairedMarkers: PairedMarker[] =
+    config.pairedMarkers || defaultConfig.pairedMarkers;
+  for (const pair of pairedMarkers) {
+    if (
+      pair.aggregation !== undefined &&
+      !PAIRED_AGGREGATIONS.includes(pair.aggregation)
+    ) {
+      throw new Error(
+        `Markers config ${configPath}: paired marker "${
+          pair.name
+        }" has unknown aggregation "${
+          pair.aggregation
+        }" (expected one of ${PAIRED_AGGREGATIONS.join(", ")})`
+      );
+    }
+    if (
+      pair.nth !== undefined &&
+      !(Number.isInteger(pair.nth) && pair.nth > 0)
+    ) {
+      throw new Error(
+        `Markers config ${configPath}: paired marker "${pair.name}" needs "nth" as a positive integer`
+      );
+    }
+  }
+
+  return {
+    customMarkers: config.customMarkers || defaultConfig.customMarkers,
+    pairedMarkers,
+    counters: config.counters || defaultConfig.counters,
+    budgets: config.budgets || defaultConfig.budgets,
+  };
+}
+
+async function loadScenario(scenarioPath: string): Promise<Scenario> {
+  const scenario = JSON.parse(await Deno.readTextFile(scenarioPath));
+  if (!Array.isArray(scenario.steps)) {
+    throw new Error(`Scenario ${scenarioPath} has no steps array`);
+  }
+
+  for (const [index, step] of scenario.steps.entries()) {
+    if (!SCENARIO_ACTIONS.includes(step?.action)) {
+      throw new Error(
+        `Scenario ${scenarioPath}: step ${index + 1} has unknown action "${
+          step?.action
+        }" (expected one of ${SCENARIO_ACTIONS.join(", ")})`
+      );
+    }
+    if (
+      step.action === "wait" &&
+      !(typeof step.ms === "number" && step.ms > 0)
+    ) {
+      throw new Error(
+        `Scenario ${scenarioPath}: step ${
+          index + 1
+        } (wait) needs "ms" as a positive number of milliseconds`
+      );
+    }
+  }
+
+  const fileName = scenarioPath.split("/").pop() ?? scenarioPath;
+  return {
+    name: scenario.name || fileName.replace(/\.json$/, ""),
+    expectedMarkers: scenario.expectedMarkers || [],
+    steps: scenario.steps,
+  };
 }
 
-async function main() {
+async function main(): Promise<number> {
   const envConfig = await loadEnvConfig();
 
   const args = parseArgs(Deno.args, {
@@ -1209,8 +7113,36 @@ async function main() {
       "markers-config",
       "iterations",
       "traceDuration",
+      "start-mode",
+      "alpha",
+      "outliers",
+      "warmup",
+      "adaptive",
+      "target-ci",
+      "max-iterations",
+      "scenario",
+      "done-marker",
+      "serial",
+      "max-cpu-load",
+      "long-task-ui",
+      "long-task-js",
+      "report-format",
+      "baseline",
     ],
-    boolean: ["help", "warm"],
+    collect: ["done-marker", "report-format"],
+    boolean: [
+      "help",
+      "warm",
+      "clear-data",
+      "drop-caches",
+      "stop-early",
+      "all-devices",
+      "stabilize",
+      "memory-at-markers",
+      "chrome-trace",
+    ],
+    negatable: ["clear-data"],
+    default: { "clear-data": true },
     alias: {
       p: "package",
       a: "activity",
@@ -1219,12 +7151,36 @@ async function main() {
       e: "env",
       m: "markers-config",
       w: "warm",
+      s: "start-mode",
     },
   });
 
   if (args.help) {
     printUsage();
-    return;
+    return EXIT_SUCCESS;
+  }
+
+  if (args._[0] === "compare") {
+    const [, baselineDir, candidateDir] = args._.map(String);
+    if (!baselineDir || !candidateDir) {
+      console.error("compare needs a baseline and a candidate directory");
+      printUsage();
+      return EXIT_FAILURE;
+    }
+    const alpha = args.alpha
+      ? parseFloat(args.alpha)
+      : DEFAULT_COMPARISON_ALPHA;
+    if (!(alpha > 0 && alpha < 1)) {
+      console.error(`Invalid significance level "${args.alpha}"`);
+      return EXIT_FAILURE;
+    }
+    await compareRuns(
+      baselineDir,
+      candidateDir,
+      args.output || candidateDir,
+      alpha
+    );
+    return EXIT_SUCCESS;
   }
 
   const packageName = args.package || envConfig.APP_PACKAGE || PACKAGE_NAME;
@@ -1244,9 +7200,187 @@ async function main() {
     args["markers-config"] || envConfig.MARKERS_CONFIG || "markers.json";
   const traceCategories =
     envConfig.TRACE_CATEGORIES || "sched,gfx,view,wm,am,app,input";
-  const warmMode = args.warm || false;
+  const startMode = (args["start-mode"] ||
+    (args.warm ? "warm" : undefined) ||
+    envConfig.START_MODE ||
+    "cold") as RunMode;
+  if (!RUN_MODES.includes(startMode)) {
+    console.error(
+      `Invalid start mode "${startMode}". Use one of: ${RUN_MODES.join(", ")}`
+    );
+    return EXIT_FAILURE;
+  }
+  const outlierMethod = (args.outliers ||
+    envConfig.OUTLIER_METHOD ||
+    "none") as OutlierMethod;
+  if (!OUTLIER_METHODS.includes(outlierMethod)) {
+    console.error(
+      `Invalid outlier method "${outlierMethod}". Use one of: ${OUTLIER_METHODS.join(
+        ", "
+      )}`
+    );
+    return EXIT_FAILURE;
+  }
+  const warmupIterations = parseInt(
+    args.warmup || envConfig.WARMUP_ITERATIONS || "0",
+    10
+  );
+  if (!(warmupIterations >= 0)) {
+    console.error(`Invalid warm-up iteration count "${args.warmup}"`);
+    return EXIT_FAILURE;
+  }
+
+  let adaptive: AdaptiveConfig | undefined;
+  const adaptiveMetric = args.adaptive || envConfig.ADAPTIVE_METRIC;
+  if (adaptiveMetric) {
+    adaptive = {
+      metric: adaptiveMetric,
+      targetWidth: args["target-ci"] || envConfig.ADAPTIVE_TARGET_CI || "5%",
+      maxIterations: parseInt(
+        args["max-iterations"] || envConfig.ADAPTIVE_MAX_ITERATIONS || "30",
+        10
+      ),
+    };
+    if (!/^[0-9.]+\s*(ms|s|%|kb|mb|gb)?$/i.test(adaptive.targetWidth.trim())) {
+      console.error(`Invalid CI width target "${adaptive.targetWidth}"`);
+      return EXIT_FAILURE;
+    }
+    if (!(adaptive.maxIterations >= iterations)) {
+      console.error(
+        `--max-iterations (${adaptive.maxIterations}) must be at least --iterations (${iterations})`
+      );
+      return EXIT_FAILURE;
+    }
+  }
+
+  const scenarioPath = args.scenario || envConfig.SCENARIO;
+  let scenario: Scenario | undefined;
+  if (scenarioPath) {
+    try {
+      scenario = await loadScenario(scenarioPath);
+    } catch (error) {
+      console.error(
+        `Failed to load scenario: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return EXIT_FAILURE;
+    }
+  }
+
+  const clearData =
+    args["clear-data"] && envConfig.CLEAR_DATA?.toLowerCase() !== "false";
+  const dropCaches =
+    args["drop-caches"] || envConfig.DROP_CACHES?.toLowerCase() === "true";
+
+  const stabilize =
+    args.stabilize || envConfig.STABILIZE?.toLowerCase() === "true";
+  const maxCpuLoadInput =
+    args["max-cpu-load"] ||
+    envConfig.MAX_CPU_LOAD ||
+    String(DEFAULT_MAX_CPU_LOAD_PER_CORE);
+  const maxCpuLoadPerCore = parseFloat(maxCpuLoadInput);
+  if (!(maxCpuLoadPerCore > 0)) {
+    console.error(`Invalid CPU load threshold "${maxCpuLoadInput}"`);
+    return EXIT_FAILURE;
+  }
+
+  const memoryAtMarkers =
+    args["memory-at-markers"] ||
+    envConfig.MEMORY_AT_MARKERS?.toLowerCase() === "true";
+
+  const longTaskThresholdsMs: Record<LongTaskThread, number> = {
+    main: parseFloat(
+      args["long-task-ui"] ||
+        envConfig.LONG_TASK_UI_MS ||
+        String(DEFAULT_LONG_TASK_THRESHOLDS_MS.main)
+    ),
+    mqt_js: parseFloat(
+      args["long-task-js"] ||
+        envConfig.LONG_TASK_JS_MS ||
+        String(DEFAULT_LONG_TASK_THRESHOLDS_MS.mqt_js)
+    ),
+  };
+  if (!Object.values(longTaskThresholdsMs).every((ms) => ms > 0)) {
+    console.error("Long task thresholds must be positive numbers of ms");
+    return EXIT_FAILURE;
+  }
+
+  // Repeatable, and each value may also be a comma-separated list.
+  const reportFormatArgs = (args["report-format"] as string[]) ?? [];
+  const requestedFormats = [
+    ...new Set(
+      (reportFormatArgs.length > 0
+        ? reportFormatArgs
+        : [envConfig.REPORT_FORMATS ?? ""]
+      )
+        .flatMap((value) => value.split(","))
+        .map((format) => format.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+  const unknownFormat = requestedFormats.find(
+    (format) => !isReportFormat(format)
+  );
+  if (unknownFormat) {
+    console.error(
+      `Invalid report format "${unknownFormat}". Use one of: ${REPORT_FORMATS.join(
+        ", "
+      )}`
+    );
+    return EXIT_FAILURE;
+  }
+  const reportFormats = requestedFormats.filter(isReportFormat);
+  const baselineDir = args.baseline || envConfig.BASELINE_DIR || undefined;
+  const chromeTrace =
+    args["chrome-trace"] || envConfig.CHROME_TRACE?.toLowerCase() === "true";
+
+  let markersConfig: MarkersConfig;
+  try {
+    markersConfig = await loadMarkersConfig(markersConfigPath);
+  } catch (error) {
+    console.error(
+      `Failed to load markers config: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return EXIT_FAILURE;
+  }
 
-  const markersConfig = await loadMarkersConfig(markersConfigPath);
+  // Only an explicit --serial conflicts with --all-devices: a DEVICE_SERIAL
+  // from the environment is ignored when --all-devices is given.
+  const allDevices = args["all-devices"];
+  if (args.serial && allDevices) {
+    console.error("Use either --serial or --all-devices, not both");
+    return EXIT_FAILURE;
+  }
+  const serial = allDevices
+    ? undefined
+    : args.serial || envConfig.DEVICE_SERIAL || undefined;
+
+  // --done-marker wins; --stop-early waits for the end of every paired marker.
+  let doneMarkers: string[] = (args["done-marker"] as string[]) ?? [];
+  if (doneMarkers.length === 0 && envConfig.DONE_MARKERS) {
+    doneMarkers = envConfig.DONE_MARKERS.split(",").map((marker) =>
+      marker.trim()
+    );
+  }
+  const stopEarly =
+    args["stop-early"] || envConfig.STOP_EARLY?.toLowerCase() === "true";
+  let doneSliceEnds: string[] = [];
+  if (doneMarkers.length === 0 && stopEarly) {
+    const pairs = markersConfig.pairedMarkers;
+    doneMarkers = [
+      ...new Set(pairs.filter((p) => p.start !== p.end).map((p) => p.end)),
+    ];
+    doneSliceEnds = [
+      ...new Set(pairs.filter((p) => p.start === p.end).map((p) => p.end)),
+    ];
+    if (doneMarkers.length === 0 && doneSliceEnds.length === 0) {
+      console.error("--stop-early needs paired markers or --done-marker");
+      return EXIT_FAILURE;
+    }
+  }
 
   const config: Config = {
     appPackage: packageName,
@@ -1257,9 +7391,27 @@ async function main() {
     deviceTracePath,
     customMarkers: markersConfig.customMarkers,
     pairedMarkers: markersConfig.pairedMarkers,
+    counters: markersConfig.counters,
+    budgets: markersConfig.budgets,
+    outlierMethod,
+    warmupIterations,
+    adaptive,
+    scenario,
+    doneMarkers,
+    doneSliceEnds,
+    serial,
     traceCategories,
     markersConfigPath,
-    warmMode,
+    startMode,
+    clearData,
+    dropCaches,
+    stabilize,
+    maxCpuLoadPerCore,
+    memoryAtMarkers,
+    longTaskThresholdsMs,
+    reportFormats,
+    baselineDir,
+    chromeTrace,
   };
 
   try {
@@ -1271,7 +7423,7 @@ async function main() {
           error instanceof Error ? error.message : String(error)
         }`
       );
-      return;
+      return EXIT_FAILURE;
     }
   }
 
@@ -1280,27 +7432,77 @@ async function main() {
   console.log(
     `App Activity: ${config.appActivity || `${config.appPackage}.MainActivity`}`
   );
-  console.log(`Running ${config.iterations} test iterations...`);
-  console.log(`Run Mode: ${config.warmMode ? "Warm" : "Cold"}`);
+  if (config.warmupIterations > 0) {
+    console.log(
+      `Running ${config.warmupIterations} warm-up iteration(s) first (excluded from the summary)`
+    );
+  }
+  if (config.adaptive) {
+    console.log(
+      `Running ${config.iterations} to ${config.adaptive.maxIterations} test iterations, until the CI of ${config.adaptive.metric} is narrower than ${config.adaptive.targetWidth}...`
+    );
+  } else {
+    console.log(`Running ${config.iterations} test iterations...`);
+  }
+  console.log(`Run Mode: ${formatRunMode(config.startMode)}`);
+  if (config.startMode === "cold") {
+    console.log(`Clear app data: ${config.clearData ? "yes" : "no"}`);
+    console.log(`Drop page caches: ${config.dropCaches ? "yes" : "no"}`);
+  }
+  if (config.stabilize) {
+    console.log(
+      `Stabilization: on (CPU load <= ${config.maxCpuLoadPerCore} per core)`
+    );
+  }
   console.log(`Output directory: ${config.outputDir}`);
   console.log(`Trace categories: ${config.traceCategories}`);
   console.log(`Markers config: ${config.markersConfigPath}`);
+  if (config.doneMarkers.length > 0 || config.doneSliceEnds.length > 0) {
+    console.log(
+      `Stop trace early on: ${describeDoneMarkers(config)} (timeout ${
+        config.traceDuration
+      }s)`
+    );
+  }
+  if (config.scenario) {
+    console.log(
+      `Scenario: ${config.scenario.name} (${config.scenario.steps.length} steps)`
+    );
+  }
   console.log(`Custom markers: ${config.customMarkers.join(", ")}`);
   if (config.pairedMarkers.length > 0) {
     console.log(
       `Paired markers: ${config.pairedMarkers
-        .map((pair) => `${pair.start} to ${pair.end}`)
+        .map((pair) =>
+          pair.start === pair.end
+            ? `${pair.start} slice`
+            : `${pair.start} to ${pair.end}`
+        )
         .join(", ")}`
     );
   }
+  console.log(
+    `Counter tracks: ${
+      config.counters.length > 0
+        ? config.counters.join(", ")
+        : "all app process counters"
+    }`
+  );
+  if (allDevices) {
+    console.log("Devices: all connected devices, measured in parallel");
+  } else if (config.serial) {
+    console.log(`Device: ${config.serial}`);
+  }
   console.log("==================================================");
 
-  await runPerformanceTests(config);
+  return allDevices
+    ? await runOnAllDevices(config)
+    : await runPerformanceTests(config);
 }
 
 if (import.meta.main) {
   try {
-    await main();
+    Deno.exit(await main());
   } catch (err) {
     if (err instanceof Error) {
       console.error(`Error: ${err.message}`);
@@ -0,0 +1,578 @@
+#!/usr/bin/env -S deno run --allow-run --allow-read --allow-write --allow-env
+
+import { parse as parseArgs } from "https://deno.land/std@0.224.0/flags/mod.ts";
+
+const CONFIG_FILE = "avd_config.json";
+const MEASURE_SCRIPT = "measure_performance.ts";
+const DEFAULT_BOOT_TIMEOUT_SECONDS = 300;
+const BOOT_POLL_INTERVAL_MS = 2000;
+const SHUTDOWN_TIMEOUT_MS = 30000;
+// Emulators listen on an even console port from this range; the adb serial
+// is emulator-<port>.
+const FIRST_EMULATOR_PORT = 5554;
+const LAST_EMULATOR_PORT = 5682;
+
+// Same exit codes as measure_performance.ts.
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_BUDGET_VIOLATION = 2;
+
+interface DeviceConfig {
+  avd_name: string;
+  device: string;
+  api_level: string;
+  ram?: string;
+}
+
+interface AvdConfig {
+  devices: DeviceConfig[];
+}
+
+interface MatrixConfig {
+  configPath: string;
+  outputDir: string;
+  apkPath?: string;
+  bootTimeoutSeconds: number;
+  avdNames: string[];
+  emulatorArgs: string[];
+  measureArgs: string[];
+}
+
+type MetricUnit = "seconds" | "ms" | "percent" | "kb" | "value";
+
+// The parts of measure_performance.ts's summary_report.json used here.
+interface SummaryReport {
+  successfulIterations: number[];
+  device: { model?: string; androidVersion?: string };
+  metrics: Record<
+    string,
+    { unit: MetricUnit; stats: { count: number; median: number } }
+  >;
+}
+
+interface TierResult {
+  avdName: string;
+  device: string;
+  apiLevel: string;
+  ram?: string;
+  serial?: string;
+  outputDir: string;
+  status: "measured" | "boot_failed" | "install_failed" | "measure_failed";
+  exitCode: number;
+  summary?: SummaryReport;
+}
+
+async function runCommand(
+  cmd: string,
+  args: string[]
+): Promise<{ success: boolean; stdout: string; stderr: string }> {
+  console.log(`Running command: ${cmd} ${args.join(" ")}`);
+
+  try {
+    const output = await new Deno.Command(cmd, {
+      args,
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+    const decoder = new TextDecoder();
+    return {
+      success: output.success,
+      stdout: decoder.decode(output.stdout),
+      stderr: decoder.decode(output.stderr),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      stdout: "",
+      stderr: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function findEmulatorBinary(): string {
+  const sdkRoot =
+    Deno.env.get("ANDROID_HOME") || Deno.env.get("ANDROID_SDK_ROOT");
+  return sdkRoot ? `${sdkRoot}/emulator/emulator` : "emulator";
+}
+
+async function listConnectedSerials(): Promise<string[]> {
+  const { stdout } = await runCommand("adb", ["devices"]);
+  return stdout
+    .trim()
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trim().split(/\s+/)[0])
+    .filter(Boolean);
+}
+
+async function findFreeEmulatorPort(): Promise<number | undefined> {
+  const used = new Set(await listConnectedSerials());
+  for (let port = FIRST_EMULATOR_PORT; port <= LAST_EMULATOR_PORT; port += 2) {
+    if (!used.has(`emulator-${port}`)) return port;
+  }
+  return undefined;
+}
+
+// Starts the emulator headless, logging its output next to the results.
+async function startEmulator(
+  config: MatrixConfig,
+  avdName: string,
+  port: number,
+  logPath: string
+): Promise<Deno.ChildProcess> {
+  console.log(`Starting emulator ${avdName} on port ${port}...`);
+  // Opened before the spawn, so a failure here cannot leave an emulator
+  // running that nobody shuts down.
+  const log = await Deno.open(logPath, {
+    write: true,
+    create: true,
+    truncate: true,
+  });
+
+  let child: Deno.ChildProcess;
+  try {
+    child = new Deno.Command(findEmulatorBinary(), {
+      args: [
+        "-avd",
+        avdName,
+        "-port",
+        String(port),
+        "-no-window",
+        "-no-audio",
+        "-no-boot-anim",
+        "-no-snapshot-save",
+        ...config.emulatorArgs,
+      ],
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+  } catch (error) {
+    log.close();
+    throw error;
+  }
+
+  // Once writing the log fails, the output is still read and dropped: an
+  // undrained pipe would eventually block the emulator.
+  let logFailed = false;
+  const merged = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await Promise.all(
+        [child.stdout, child.stderr].map(async (stream) => {
+          for await (const chunk of stream) {
+            if (logFailed) continue;
+            try {
+              controller.enqueue(chunk);
+            } catch {
+              // The log failed before the catch below flagged it.
+              logFailed = true;
+            }
+          }
+        })
+      );
+      if (!logFailed) controller.close();
+    },
+  });
+  merged.pipeTo(log.writable).catch((error) => {
+    logFailed = true;
+    console.error(
+      `Failed to write emulator log ${logPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  });
+
+  return child;
+}
+
+async function waitForBoot(
+  serial: string,
+  timeoutSeconds: number,
+  emulator: Deno.ChildProcess
+): Promise<boolean> {
+  console.log(`Waiting for ${serial} to boot (up to ${timeoutSeconds}s)...`);
+  let exited = false;
+  emulator.status.then(() => (exited = true));
+
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  while (Date.now() < deadline) {
+    if (exited) {
+      console.error(`Emulator for ${serial} exited before it finished booting`);
+      return false;
+    }
+
+    const { success, stdout } = await runCommand("adb", [
+      "-s",
+      serial,
+      "shell",
+      "getprop",
+      "sys.boot_completed",
+    ]);
+    if (success && stdout.trim() === "1") {
+      console.log(`${serial} booted`);
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, BOOT_POLL_INTERVAL_MS));
+  }
+
+  console.error(`${serial} did not boot within ${timeoutSeconds}s`);
+  return false;
+}
+
+async function installApk(serial: string, apkPath: string): Promise<boolean> {
+  console.log(`Installing ${apkPath} on ${serial}...`);
+  const { success, stdout, stderr } = await runCommand("adb", [
+    "-s",
+    serial,
+    "install",
+    "-r",
+    "-g",
+    apkPath,
+  ]);
+  // adb install reports some failures on stdout with a zero exit code.
+  if (!success || stdout.includes("Failure")) {
+    console.error(`Failed to install ${apkPath}: ${stderr || stdout}`);
+    return false;
+  }
+  return true;
+}
+
+async function runMeasurement(
+  config: MatrixConfig,
+  serial: string,
+  outputDir: string
+): Promise<number> {
+  const scriptPath = new URL(MEASURE_SCRIPT, import.meta.url).pathname;
+  console.log(`Measuring on ${serial}...`);
+
+  // Inherit stdio so the measurement's progress shows up live.
+  const { code } = await new Deno.Command(Deno.execPath(), {
+    args: [
+      "run",
+      "--allow-run",
+      "--allow-read",
+      "--allow-write",
+      "--allow-env",
+      scriptPath,
+      "--serial",
+      serial,
+      "--output",
+      outputDir,
+      ...config.measureArgs,
+    ],
+    stdout: "inherit",
+    stderr: "inherit",
+  }).output();
+  return code;
+}
+
+async function shutdownEmulator(
+  serial: string,
+  emulator: Deno.ChildProcess
+): Promise<void> {
+  console.log(`Shutting down ${serial}...`);
+  await runCommand("adb", ["-s", serial, "emu", "kill"]);
+
+  const timeout = new Promise<"timeout">((resolve) =>
+    setTimeout(() => resolve("timeout"), SHUTDOWN_TIMEOUT_MS)
+  );
+  if ((await Promise.race([emulator.status, timeout])) === "timeout") {
+    console.warn(`${serial} did not shut down, killing the emulator process`);
+    emulator.kill("SIGKILL");
+    await emulator.status;
+  }
+}
+
+async function loadSummary(
+  outputDir: string
+): Promise<SummaryReport | undefined> {
+  try {
+    return JSON.parse(
+      await Deno.readTextFile(`${outputDir}/summary_report.json`)
+    ) as SummaryReport;
+  } catch {
+    return undefined;
+  }
+}
+
+async function measureTier(
+  config: MatrixConfig,
+  device: DeviceConfig
+): Promise<TierResult> {
+  const outputDir = `${config.outputDir}/${device.avd_name}`;
+  await Deno.mkdir(outputDir, { recursive: true });
+
+  const result: TierResult = {
+    avdName: device.avd_name,
+    device: device.device,
+    apiLevel: device.api_level,
+    ram: device.ram,
+    outputDir,
+    status: "boot_failed",
+    exitCode: EXIT_FAILURE,
+  };
+
+  const port = await findFreeEmulatorPort();
+  if (port === undefined) {
+    console.error("No free emulator port");
+    return result;
+  }
+  const serial = `emulator-${port}`;
+  result.serial = serial;
+
+  let emulator: Deno.ChildProcess;
+  try {
+    emulator = await startEmulator(
+      config,
+      device.avd_name,
+      port,
+      `${outputDir}/emulator.log`
+    );
+  } catch (error) {
+    console.error(
+      `Failed to start emulator ${device.avd_name}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return result;
+  }
+
+  try {
+    if (!(await waitForBoot(serial, config.bootTimeoutSeconds, emulator))) {
+      return result;
+    }
+
+    if (config.apkPath && !(await installApk(serial, config.apkPath))) {
+      result.status = "install_failed";
+      return result;
+    }
+
+    // The directory is reused between matrix runs; an earlier summary must
+    // not show up as this run's medians.
+    try {
+      await Deno.remove(`${outputDir}/summary_report.json`);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+
+    result.exitCode = await runMeasurement(config, serial, outputDir);
+    result.status =
+      result.exitCode === EXIT_FAILURE ? "measure_failed" : "measured";
+    if (result.status === "measured") {
+      result.summary = await loadSummary(outputDir);
+    }
+    return result;
+  } finally {
+    await shutdownEmulator(serial, emulator);
+  }
+}
+
+function formatMetricValue(value: number, unit: MetricUnit): string {
+  if (unit === "seconds") return `${value.toFixed(3)} s`;
+  if (unit === "ms") return `${value.toFixed(1)} ms`;
+  if (unit === "percent") return `${value.toFixed(2)}%`;
+  if (unit === "kb") return `${value.toFixed(0)} KB`;
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+// One row per metric, one column per tier, each cell the tier's median.
+function renderTierTable(results: TierResult[]): string {
+  const measured = results.filter((result) => result.summary);
+  const metricNames: string[] = [];
+  for (const result of measured) {
+    for (const name of Object.keys(result.summary!.metrics)) {
+      // Absolute timestamps are time since boot and differ per emulator.
+      if (!name.endsWith("_absolute") && !metricNames.includes(name)) {
+        metricNames.push(name);
+      }
+    }
+  }
+
+  const header = ["Metric (median)", ...measured.map((r) => r.avdName)];
+  const rows = metricNames.map((name) => [
+    name,
+    ...measured.map((result) => {
+      const metric = result.summary!.metrics[name];
+      return metric && metric.stats.count > 0
+        ? formatMetricValue(metric.stats.median, metric.unit)
+        : "-";
+    }),
+  ]);
+
+  const widths = header.map((_, column) =>
+    Math.max(...[header, ...rows].map((row) => row[column].length))
+  );
+  const renderRow = (row: string[]) =>
+    row
+      .map((cell, column) =>
+        column === 0
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column])
+      )
+      .join("  ");
+
+  return [
+    renderRow(header),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(renderRow),
+  ].join("\n");
+}
+
+function renderMatrixText(results: TierResult[]): string {
+  let content = "===== Device Matrix Report =====\n";
+  content += `Date: ${new Date().toISOString()}\n\n`;
+
+  content += "== Tiers ==\n";
+  for (const result of results) {
+    content += `${result.avdName} (${result.device}, API ${result.apiLevel}${
+      result.ram ? `, ${result.ram} MB RAM` : ""
+    }): ${result.status}`;
+    if (result.summary) {
+      content += `, ${result.summary.successfulIterations.length} successful iteration(s)`;
+    }
+    content += `, results in ${result.outputDir}\n`;
+  }
+  content += "\n";
+
+  if (results.some((result) => result.summary)) {
+    content += renderTierTable(results) + "\n";
+  } else {
+    content += "No tier produced results.\n";
+  }
+  return content;
+}
+
+function printUsage() {
+  console.log(`
+Usage: deno run --allow-run --allow-read --allow-write --allow-env run-matrix.ts [options] [-- measure_performance options]
+
+Boots each AVD from ${CONFIG_FILE} headless, installs the app, runs
+${MEASURE_SCRIPT} against it and shuts it down again, then prints a
+per-tier comparison table.
+
+Options:
+  --apk <file>                  APK to install on every emulator (without it
+                                the app must already be installed)
+  -c, --config <file>           AVD config file (default: ${CONFIG_FILE})
+  -o, --output <directory>      Output directory, one subdirectory per AVD
+                                (default: ./matrix_results)
+  --avd <name>                  Only run this AVD (can be repeated)
+  --boot-timeout <seconds>      How long to wait for boot (default: ${DEFAULT_BOOT_TIMEOUT_SECONDS})
+  --emulator-arg <arg>          Extra emulator argument (can be repeated)
+  -h, --help                    Show this help message
+
+Example:
+  deno task measure-rn-matrix --apk app-release.apk -- --package com.example.app --iterations 5
+`);
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(Deno.args, {
+    string: ["apk", "config", "output", "avd", "boot-timeout", "emulator-arg"],
+    boolean: ["help"],
+    collect: ["avd", "emulator-arg"],
+    alias: { c: "config", o: "output", h: "help" },
+    "--": true,
+  });
+
+  if (args.help) {
+    printUsage();
+    return EXIT_SUCCESS;
+  }
+
+  const bootTimeoutInput =
+    args["boot-timeout"] || String(DEFAULT_BOOT_TIMEOUT_SECONDS);
+  const bootTimeoutSeconds = parseInt(bootTimeoutInput, 10);
+  if (!(bootTimeoutSeconds > 0)) {
+    console.error(`Invalid boot timeout "${bootTimeoutInput}"`);
+    return EXIT_FAILURE;
+  }
+
+  const config: MatrixConfig = {
+    configPath: args.config || CONFIG_FILE,
+    outputDir: args.output || "./matrix_results",
+    apkPath: args.apk,
+    bootTimeoutSeconds,
+    avdNames: (args.avd as string[]) ?? [],
+    emulatorArgs: (args["emulator-arg"] as string[]) ?? [],
+    measureArgs: (args["--"] ?? []).map(String),
+  };
+
+  let avdConfig: AvdConfig;
+  try {
+    avdConfig = JSON.parse(await Deno.readTextFile(config.configPath));
+  } catch (error) {
+    console.error(
+      `Failed to read ${config.configPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return EXIT_FAILURE;
+  }
+
+  if (!avdConfig.devices || !Array.isArray(avdConfig.devices)) {
+    console.error(
+      `Missing or invalid "devices" array in ${config.configPath}.`
+    );
+    return EXIT_FAILURE;
+  }
+
+  const devices = avdConfig.devices.filter(
+    (device) =>
+      config.avdNames.length === 0 || config.avdNames.includes(device.avd_name)
+  );
+  if (devices.length === 0) {
+    console.error(`No matching AVDs in ${config.configPath}`);
+    return EXIT_FAILURE;
+  }
+
+  await Deno.mkdir(config.outputDir, { recursive: true });
+
+  console.log("===== React Native Device Matrix =====");
+  console.log(`AVDs: ${devices.map((device) => device.avd_name).join(", ")}`);
+  console.log(`APK: ${config.apkPath ?? "not installed, using existing app"}`);
+  console.log(`Output directory: ${config.outputDir}`);
+  console.log("======================================");
+
+  // One emulator at a time: running the tiers side by side on the same host
+  // would make them compete for CPU and skew the comparison.
+  const results: TierResult[] = [];
+  for (const device of devices) {
+    console.log(`\n=== ${device.avd_name} ===`);
+    results.push(await measureTier(config, device));
+  }
+
+  const text = renderMatrixText(results);
+  await Deno.writeTextFile(
+    `${config.outputDir}/matrix_summary.json`,
+    JSON.stringify(
+      results.map(({ summary, ...result }) => ({
+        ...result,
+        medians: summary
+          ? Object.fromEntries(
+              Object.entries(summary.metrics)
+                .filter(([name]) => !name.endsWith("_absolute"))
+                .map(([name, metric]) => [name, metric.stats.median])
+            )
+          : undefined,
+      })),
+      null,
+      2
+    )
+  );
+  await Deno.writeTextFile(`${config.outputDir}/matrix_summary.txt`, text);
+  console.log(`\n${text}`);
+
+  const exitCodes = results.map((result) => result.exitCode);
+  if (exitCodes.includes(EXIT_FAILURE)) return EXIT_FAILURE;
+  if (exitCodes.includes(EXIT_BUDGET_VIOLATION)) return EXIT_BUDGET_VIOLATION;
+  return EXIT_SUCCESS;
+}
+
+if (import.meta.main) {
+  try {
+    Deno.exit(await main());
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    Deno.exit(EXIT_FAILURE);
+  }
+}